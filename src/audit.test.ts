@@ -0,0 +1,55 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AuditLog, createAuditEntry } from './audit.js';
+import { AuditEntry } from './types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phpipam-audit-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function entry(): AuditEntry {
+  return createAuditEntry({
+    tool: 'phpipam.addresses.update',
+    args: { id: '1', description: 'web' },
+    startedAt: Date.now(),
+    changes: [{ method: 'PATCH', path: '/addresses/1/', before: { id: '1' }, after: { id: '1', description: 'web' }, diff: [], dryRun: false }],
+  });
+}
+
+/**
+ * A journal path below a regular file, which cannot be created even as root
+ */
+function unwritablePath(): string {
+  fs.writeFileSync(path.join(dir, 'file'), '');
+  return path.join(dir, 'file', 'audit.jsonl');
+}
+
+describe('AuditLog', () => {
+  it('journals entries that can be queried back', async () => {
+    const audit = new AuditLog(path.join(dir, 'logs', 'audit.jsonl'));
+    await audit.checkWritable();
+    const written = entry();
+    expect(await audit.tryAppend(written)).toBeUndefined();
+
+    expect(await audit.query({ objectType: 'address', objectId: '1' })).toEqual([written]);
+  });
+
+  it('refuses writes up front when the journal cannot be opened', async () => {
+    const audit = new AuditLog(unwritablePath());
+    await expect(audit.checkWritable()).rejects.toMatchObject({ code: 'INTERNAL', message: expect.stringContaining('No changes were made') });
+  });
+
+  it('reports a failed append instead of throwing', async () => {
+    const audit = new AuditLog(unwritablePath());
+    expect(await audit.tryAppend(entry())).toMatch(/^Audit journal write failed: /);
+    await expect(audit.append(entry())).rejects.toThrow();
+  });
+});
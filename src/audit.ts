@@ -0,0 +1,223 @@
+/**
+ * Audit journal
+ *
+ * Append-only JSONL record of every write tool call: who asked for what
+ * (arguments, redacted), which objects were touched, their state before and
+ * after, the outcome, and how long it took.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import readline from 'node:readline';
+import crypto from 'node:crypto';
+import { maskArgs, DEFAULT_INSTANCE } from './config.js';
+import {
+  PhpIpamError,
+  ChangeRecord,
+  AuditEntry,
+  AuditTarget,
+  AuditQueryInput,
+} from './types.js';
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+/**
+ * phpIPAM controller names mapped to the object types used in audit entries
+ */
+const CONTROLLER_TYPES: Record<string, string> = {
+  addresses: 'address',
+  subnets: 'subnet',
+  sections: 'section',
+  vlan: 'vlan',
+  vrf: 'vrf',
+  devices: 'device',
+};
+
+/**
+ * Objects touched by a set of changes, derived from the request path and snapshots
+ */
+export function changeTargets(changes: ChangeRecord[]): AuditTarget[] {
+  const targets = new Map<string, AuditTarget>();
+  for (const change of changes) {
+    const controller = change.path.split('/').filter(p => p)[0] || '';
+    const type = CONTROLLER_TYPES[controller] || controller;
+    const snapshot = (change.after || change.before || {}) as { id?: string; ip?: string };
+    if (!snapshot.id) continue;
+    targets.set(`${type}:${snapshot.id}`, { type, id: String(snapshot.id), ip: snapshot.ip });
+  }
+  return [...targets.values()];
+}
+
+export function createAuditEntry(options: {
+  instance?: string;
+  tool: string;
+  args: Record<string, unknown>;
+  startedAt: number;
+  changes: ChangeRecord[];
+  result?: unknown;
+  error?: unknown;
+}): AuditEntry {
+  const { instance, tool, args, startedAt, changes, result, error } = options;
+  const entry: AuditEntry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date(startedAt).toISOString(),
+    instance,
+    tool,
+    args: maskArgs(args),
+    targets: changeTargets(changes),
+    changes,
+    outcome: error === undefined ? 'success' : 'error',
+    durationMs: Date.now() - startedAt,
+  };
+
+  if (error === undefined) {
+    entry.result = result;
+  } else {
+    entry.error = error instanceof PhpIpamError
+      ? { code: error.code, message: error.message }
+      : { code: 'INTERNAL', message: error instanceof Error ? error.message : String(error) };
+  }
+
+  return entry;
+}
+
+export class AuditLog {
+  private filePath: string;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append one entry. Writes are serialized so concurrent tool calls never
+   * interleave partial lines.
+   */
+  append(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+    const write = this.pending.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, line, { mode: 0o600 });
+    });
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Fail unless the journal can be opened for appending. Write tools check
+   * this before sending anything, so an unwritable journal blocks the change
+   * instead of leaving it unrecorded.
+   */
+  async checkWritable(): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      const handle = await fs.promises.open(this.filePath, 'a', 0o600);
+      await handle.close();
+    } catch (error) {
+      throw new PhpIpamError(
+        `Audit journal ${this.filePath} is not writable: ${error instanceof Error ? error.message : error}. No changes were made`,
+        'INTERNAL'
+      );
+    }
+  }
+
+  /**
+   * Append an entry for a change that has already been made. The change
+   * cannot be taken back, so the failure is returned for the tool result
+   * instead of thrown.
+   */
+  async tryAppend(entry: AuditEntry): Promise<string | undefined> {
+    try {
+      await this.append(entry);
+      return undefined;
+    } catch (error) {
+      return `Audit journal write failed: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+
+  /**
+   * Read entries matching the filter, newest first
+   */
+  async query(filter: AuditQueryInput): Promise<AuditEntry[]> {
+    const limit = filter.limit === undefined ? DEFAULT_AUDIT_QUERY_LIMIT : Number(filter.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_QUERY_LIMIT) {
+      throw new PhpIpamError(`Invalid limit: ${filter.limit}. Must be 1-${MAX_AUDIT_QUERY_LIMIT}`, 'VALIDATION');
+    }
+
+    const since = parseTime(filter.since, 'since');
+    const until = parseTime(filter.until, 'until');
+
+    const matches: AuditEntry[] = [];
+    for await (const entry of this.entries()) {
+      const time = Date.parse(entry.timestamp);
+      if (since !== undefined && time < since) continue;
+      if (until !== undefined && time > until) continue;
+      if (filter.instance && (entry.instance || DEFAULT_INSTANCE) !== filter.instance) continue;
+      if (filter.tool && entry.tool !== filter.tool && entry.tool !== `phpipam.${filter.tool}`) continue;
+      if (filter.outcome && entry.outcome !== filter.outcome) continue;
+      if (filter.objectType && !entry.targets.some(t => t.type === filter.objectType)) continue;
+      if (filter.objectId && !entry.targets.some(t =>
+        t.id === filter.objectId && (!filter.objectType || t.type === filter.objectType)
+      )) continue;
+      if (filter.ip && !entry.targets.some(t => t.ip === filter.ip)) continue;
+
+      matches.push(entry);
+    }
+
+    return matches.reverse().slice(0, limit);
+  }
+
+  /**
+   * Look up a single entry by id
+   */
+  async find(id: string): Promise<AuditEntry | null> {
+    for await (const entry of this.entries()) {
+      if (entry.id === id) return entry;
+    }
+    return null;
+  }
+
+  /**
+   * Id of the successful revert of an entry, if one was recorded
+   */
+  async findRevert(id: string): Promise<string | undefined> {
+    for await (const entry of this.entries()) {
+      if (entry.tool === 'phpipam.changes.revert' && entry.outcome === 'success' &&
+          entry.args.changeId === id && entry.changes.length > 0) {
+        return entry.id;
+      }
+    }
+    return undefined;
+  }
+
+  private async *entries(): AsyncGenerator<AuditEntry> {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.filePath, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        yield JSON.parse(line) as AuditEntry;
+      } catch {
+        // A torn final line from a crash should not hide the rest of the journal
+        continue;
+      }
+    }
+  }
+}
+
+function parseTime(value: string | undefined, field: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new PhpIpamError(`Invalid ${field}: ${value}. Expected an ISO 8601 timestamp`, 'VALIDATION');
+  }
+  return time;
+}
@@ -0,0 +1,124 @@
+/**
+ * Bulk address allocation
+ *
+ * Allocates addresses for a list of hosts with all-or-nothing semantics:
+ * if any item fails, every address created by the batch so far is deleted
+ * again and the per-item results say what happened to each one. Creates are
+ * never retried inside a batch, and rollback goes by the id phpIPAM returned,
+ * so an address whose read-back failed is still removed.
+ */
+
+import { PhpIpamClient } from './client.js';
+import { Address, PhpIpamError, AllocateBatchInput, AllocateBatchItem } from './types.js';
+import { parseMac, formatMac } from './ipmath.js';
+
+export const MAX_BATCH_SIZE = 256;
+
+export type BatchItemStatus = 'allocated' | 'failed' | 'rolled_back' | 'rollback_failed' | 'skipped';
+
+export interface BatchItemResult {
+  index: number;
+  hostname?: string;
+  subnetId: string;
+  status: BatchItemStatus;
+  addressId?: string;
+  address?: Address;
+  error?: string;
+}
+
+export interface BatchResult {
+  success: boolean;
+  allocated: number;                // Addresses that exist after the call, including any that failed to roll back
+  rolledBack: boolean;
+  items: BatchItemResult[];
+  error?: string;
+}
+
+/**
+ * Check every item before anything is written, so bad input never causes a rollback
+ */
+function validateBatch(input: AllocateBatchInput): void {
+  if (!Array.isArray(input.items) || input.items.length === 0) {
+    throw new PhpIpamError('items is required and must be a non-empty array', 'VALIDATION');
+  }
+  if (input.items.length > MAX_BATCH_SIZE) {
+    throw new PhpIpamError(
+      `Batch of ${input.items.length} items exceeds the limit of ${MAX_BATCH_SIZE}`,
+      'VALIDATION'
+    );
+  }
+
+  input.items.forEach((item, index) => {
+    if (!item.subnetId && !input.subnetId) {
+      throw new PhpIpamError(`items[${index}]: subnetId is required (per item or for the batch)`, 'VALIDATION');
+    }
+    if (item.mac) {
+      parseMac(item.mac);
+    }
+  });
+}
+
+function itemFields(item: AllocateBatchItem): Partial<Address> {
+  return {
+    hostname: item.hostname,
+    description: item.description,
+    mac: item.mac ? formatMac(parseMac(item.mac)) : undefined,
+    owner: item.owner,
+    note: item.note,
+  };
+}
+
+export async function allocateBatch(client: PhpIpamClient, input: AllocateBatchInput): Promise<BatchResult> {
+  validateBatch(input);
+
+  const results: BatchItemResult[] = input.items.map((item, index) => ({
+    index,
+    hostname: item.hostname,
+    subnetId: item.subnetId || input.subnetId!,
+    status: 'skipped',
+  }));
+
+  let failure: string | undefined;
+  for (const [index, item] of input.items.entries()) {
+    const result = results[index];
+    const writer = client.undoable();
+    try {
+      result.address = await writer.allocateFirstFree(result.subnetId, itemFields(item));
+      result.addressId = result.address.id;
+      result.status = 'allocated';
+    } catch (error) {
+      // The address may have been created even though reading it back failed
+      result.addressId = writer.getCreated()?.[0];
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+      failure = `items[${index}] (${item.hostname || 'unnamed'}): ${result.error}`;
+      break;
+    }
+  }
+
+  if (!failure) {
+    return { success: true, allocated: results.length, rolledBack: false, items: results };
+  }
+
+  // Undo in reverse order so the subnets end up exactly as they started
+  for (const result of [...results].reverse()) {
+    if (!result.addressId) continue;
+    try {
+      await client.deleteAddress(result.addressId);
+      if (result.status === 'allocated') result.status = 'rolled_back';
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.error = result.error ? `${result.error}; rollback failed: ${message}` : message;
+      result.status = 'rollback_failed';
+    }
+  }
+
+  const remaining = results.filter(r => r.status === 'rollback_failed').length;
+  return {
+    success: false,
+    allocated: remaining,
+    rolledBack: remaining === 0,
+    items: results,
+    error: failure,
+  };
+}
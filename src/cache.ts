@@ -0,0 +1,272 @@
+/**
+ * Response cache
+ *
+ * LRU cache of phpIPAM GET responses keyed by API path. Every path belongs to
+ * an entity (sections, subnets, addresses, ...) with its own TTL. Writes drop
+ * exactly the paths they can affect, using the object snapshots taken around
+ * the write. Entries past their TTL but inside the stale window are served
+ * immediately while one background request refreshes them.
+ */
+
+import { CacheConfig, CacheEntity } from './types.js';
+import { CACHE_ENTITIES } from './config.js';
+
+interface CacheEntry {
+  entity: CacheEntity;
+  data: unknown;
+  expires: number;
+  staleUntil: number;
+}
+
+export interface CacheStats {
+  size: number;
+  maxEntries: number;
+  staleSeconds: number;
+  ttl: Record<CacheEntity, number>;
+  entries: Record<CacheEntity, number>;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  hitRate: number;
+  evictions: number;
+  invalidations: number;
+  refreshErrors: number;
+}
+
+/**
+ * Entity a GET path caches as, or undefined for paths that must always go
+ * to phpIPAM (first_free and first_subnet compute the next free block)
+ */
+export function cacheEntity(path: string): CacheEntity | undefined {
+  const [controller, id, sub] = path.split('/').filter(p => p);
+  switch (controller) {
+    case 'sections':
+      return sub === 'subnets' ? 'subnets' : 'sections';
+    case 'subnets':
+      if (sub === 'first_subnet' || sub === 'first_free') return undefined;
+      return sub === 'addresses' ? 'addresses' : 'subnets';
+    case 'addresses':
+      if (id === 'first_free') return undefined;
+      return id?.startsWith('search') ? 'search' : 'addresses';
+    case 'vlan':
+      if (id === 'search') return 'search';
+      return sub === 'subnets' ? 'subnets' : 'vlans';
+    case 'l2domains':
+      return 'vlans';
+    case 'vrf':
+      return sub === 'subnets' ? 'subnets' : 'vrfs';
+    case 'devices':
+      if (id === 'search') return 'search';
+      return sub === 'addresses' ? 'addresses' : 'devices';
+    default:
+      return undefined;
+  }
+}
+
+function isSet(value: unknown): value is string {
+  return value !== undefined && value !== null && value !== '' && String(value) !== '0';
+}
+
+/**
+ * Cached paths a write can make stale. Snapshots are the object before the
+ * write and the fields it set, so moves invalidate both old and new parents.
+ * Missing fields widen the invalidation rather than risk stale reads.
+ */
+export function affectedPaths(
+  method: string,
+  path: string,
+  snapshots: Array<object | null | undefined>
+): { keys: string[]; prefixes: string[] } {
+  const keys = new Set<string>();
+  const prefixes = new Set<string>();
+  const [controller, id, sub] = path.split('/').filter(p => p);
+  const objects = snapshots.filter((s): s is object => !!s) as Array<Record<string, unknown>>;
+
+  switch (controller) {
+    case 'addresses': {
+      prefixes.add('/addresses/search');
+      if (isSet(id) && id !== 'first_free') keys.add(`/addresses/${id}/`);
+      // POST /addresses/first_free/{subnetId}/
+      const subnetIds = objects.map(o => o.subnetId).concat(id === 'first_free' ? [sub] : []);
+      if (subnetIds.some(isSet)) {
+        for (const subnetId of subnetIds.filter(isSet)) {
+          keys.add(`/subnets/${subnetId}/`);
+          keys.add(`/subnets/${subnetId}/addresses/`);
+        }
+      } else {
+        prefixes.add('/subnets/');
+      }
+      for (const o of objects) {
+        if (isSet(o.id)) keys.add(`/addresses/${o.id}/`);
+        if (isSet(o.deviceId)) keys.add(`/devices/${o.deviceId}/addresses/`);
+      }
+      break;
+    }
+    case 'subnets': {
+      prefixes.add('/subnets/cidr/');
+      // POST /subnets/{parentId}/first_subnet/{mask}/
+      if (isSet(id)) prefixes.add(`/subnets/${id}/`);
+      for (const o of objects) {
+        if (isSet(o.id)) prefixes.add(`/subnets/${o.id}/`);
+        if (isSet(o.masterSubnetId)) prefixes.add(`/subnets/${o.masterSubnetId}/`);
+        if (isSet(o.sectionId)) keys.add(`/sections/${o.sectionId}/subnets/`);
+        if (isSet(o.vrfId)) keys.add(`/vrf/${o.vrfId}/subnets/`);
+        if (isSet(o.vlanId)) prefixes.add(`/vlan/${o.vlanId}/subnets/`);
+      }
+      // Without a full snapshot the section, VRF and VLAN are unknown
+      if (!objects.some(o => isSet(o.sectionId))) {
+        prefixes.add('/sections/');
+        prefixes.add('/vrf/');
+        prefixes.add('/vlan/');
+      }
+      // Deleting a subnet deletes its addresses
+      if (method === 'DELETE') prefixes.add('/addresses/');
+      break;
+    }
+    case 'sections':
+      prefixes.add('/sections/');
+      if (method === 'DELETE') {
+        prefixes.add('/subnets/');
+        prefixes.add('/addresses/');
+      }
+      break;
+    case 'vlan':
+    case 'vrf':
+    case 'devices':
+      prefixes.add(`/${controller}/`);
+      if (controller === 'vlan') prefixes.add('/l2domains/');
+      // Subnets and addresses keep references to the deleted object
+      if (method === 'DELETE') {
+        prefixes.add('/subnets/');
+        prefixes.add('/sections/');
+        if (controller === 'devices') prefixes.add('/addresses/');
+      }
+      break;
+    default:
+      // Unknown controller: nothing can be assumed about what changed
+      prefixes.add('/');
+  }
+
+  return { keys: [...keys], prefixes: [...prefixes] };
+}
+
+export class ResponseCache {
+  private config: CacheConfig;
+  private entries = new Map<string, CacheEntry>();
+  private refreshing = new Set<string>();
+  // Bumped by every invalidation, so loads that started before it are not stored
+  private generation = 0;
+  private counters = { hits: 0, staleHits: 0, misses: 0, evictions: 0, invalidations: 0, refreshErrors: 0 };
+
+  constructor(config: CacheConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Cached value for key, loading it on a miss. With fresh set the cache is
+   * only written, so callers that must see current state still refresh it.
+   */
+  async get<T>(key: string, entity: CacheEntity, load: () => Promise<T>, fresh = false): Promise<T> {
+    if (this.config.ttl[entity] <= 0) {
+      return load();
+    }
+
+    const entry = fresh ? undefined : this.entries.get(key);
+    const now = Date.now();
+    if (entry && now < entry.staleUntil) {
+      this.touch(key, entry);
+      if (now < entry.expires) {
+        this.counters.hits++;
+      } else {
+        this.counters.staleHits++;
+        this.revalidate(key, entity, load);
+      }
+      return entry.data as T;
+    }
+
+    this.counters.misses++;
+    const generation = this.generation;
+    const data = await load();
+    this.store(key, entity, data, generation);
+    return data;
+  }
+
+  /**
+   * Drop exact keys and every key under the prefixes. Returns entries removed.
+   */
+  invalidate(keys: string[], prefixes: string[] = []): number {
+    this.generation++;
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (keys.includes(key) || prefixes.some(prefix => key.startsWith(prefix))) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    this.counters.invalidations += removed;
+    return removed;
+  }
+
+  /**
+   * Drop every entry, or only those of one entity
+   */
+  clear(entity?: CacheEntity): number {
+    this.generation++;
+    let removed = 0;
+    for (const [key, entry] of [...this.entries]) {
+      if (!entity || entry.entity === entity) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  stats(): CacheStats {
+    const entries = Object.fromEntries(CACHE_ENTITIES.map(e => [e, 0])) as Record<CacheEntity, number>;
+    for (const entry of this.entries.values()) {
+      entries[entry.entity]++;
+    }
+    const lookups = this.counters.hits + this.counters.staleHits + this.counters.misses;
+    return {
+      size: this.entries.size,
+      maxEntries: this.config.maxEntries,
+      staleSeconds: this.config.staleSeconds,
+      ttl: this.config.ttl,
+      entries,
+      ...this.counters,
+      hitRate: lookups > 0 ? Math.round(((this.counters.hits + this.counters.staleHits) / lookups) * 1000) / 1000 : 0,
+    };
+  }
+
+  private store(key: string, entity: CacheEntity, data: unknown, generation: number): void {
+    if (generation !== this.generation) return;
+
+    const expires = Date.now() + this.config.ttl[entity] * 1000;
+    this.entries.delete(key);
+    this.entries.set(key, { entity, data, expires, staleUntil: expires + this.config.staleSeconds * 1000 });
+
+    // Map iteration order is insertion order, so the first key is least recently used
+    while (this.entries.size > this.config.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+      this.counters.evictions++;
+    }
+  }
+
+  private touch(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+
+  private revalidate(key: string, entity: CacheEntity, load: () => Promise<unknown>): void {
+    if (this.refreshing.has(key)) return;
+    this.refreshing.add(key);
+    const generation = this.generation;
+    load()
+      .then(data => this.store(key, entity, data, generation))
+      .catch(() => {
+        this.counters.refreshErrors++;
+      })
+      .finally(() => this.refreshing.delete(key));
+  }
+}
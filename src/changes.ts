@@ -0,0 +1,412 @@
+/**
+ * Change history and revert
+ *
+ * Every live write tool call is kept as a change set (the same shape as an
+ * audit entry) with snapshots of each object before and after the write.
+ * A change set can be reverted: deleted objects are re-created, updated
+ * fields are patched back, and created objects are deleted. All objects are
+ * checked for drift first, and nothing is written if any of them changed
+ * since, unless the caller forces it.
+ */
+
+import { PhpIpamClient } from './client.js';
+import { AuditLog } from './audit.js';
+import { PhpIpamError, AuditEntry, ChangeRecord, FieldChange } from './types.js';
+
+export const DEFAULT_HISTORY_SIZE = 500;
+export const DEFAULT_CHANGES_LIMIT = 20;
+
+/**
+ * In-memory ring of recent change sets. Older ones are read back from the
+ * audit journal when it is enabled.
+ */
+export class ChangeHistory {
+  private entries: AuditEntry[] = [];
+  private reverted = new Map<string, string>();
+  private limit: number;
+
+  constructor(limit: number = DEFAULT_HISTORY_SIZE) {
+    this.limit = limit;
+  }
+
+  add(entry: AuditEntry): void {
+    if (entry.changes.length === 0) return;
+    this.entries.push(entry);
+    if (this.entries.length > this.limit) {
+      this.entries.splice(0, this.entries.length - this.limit);
+    }
+  }
+
+  get(id: string): AuditEntry | undefined {
+    return this.entries.find(e => e.id === id);
+  }
+
+  list(limit: number): AuditEntry[] {
+    return this.entries.slice(-limit).reverse();
+  }
+
+  markReverted(id: string, revertedBy: string): void {
+    this.reverted.set(id, revertedBy);
+  }
+
+  revertedBy(id: string): string | undefined {
+    return this.reverted.get(id);
+  }
+}
+
+/**
+ * Fields phpIPAM maintains itself. They never count as drift and are never
+ * sent back when restoring an object.
+ */
+const SERVER_FIELDS = new Set(['id', 'editDate', 'lastSeen', 'calculation', 'links', 'gateway', 'usage']);
+
+interface ObjectOps {
+  get(id: string): Promise<object>;
+  create(data: Record<string, unknown>): Promise<object>;
+  update(id: string, data: Record<string, unknown>): Promise<object>;
+  remove(id: string): Promise<void>;
+}
+
+function objectOps(client: PhpIpamClient, controller: string): ObjectOps {
+  switch (controller) {
+    case 'addresses':
+      return {
+        get: id => client.getAddress(id),
+        create: data => client.createAddress(data),
+        update: (id, data) => client.updateAddress(id, data),
+        remove: id => client.deleteAddress(id),
+      };
+    case 'subnets':
+      return {
+        get: id => client.getSubnet(id),
+        create: data => client.createSubnet(data),
+        update: (id, data) => client.updateSubnet(id, data),
+        remove: id => client.deleteSubnet(id),
+      };
+    case 'sections':
+      return {
+        get: id => client.getSection(id),
+        create: data => client.createSection(data),
+        update: (id, data) => client.updateSection(id, data),
+        remove: id => client.deleteSection(id),
+      };
+    case 'vlan':
+      return {
+        get: id => client.getVlan(id),
+        create: data => client.createVlan(data),
+        update: (id, data) => client.updateVlan(id, data),
+        remove: id => client.deleteVlan(id),
+      };
+    case 'vrf':
+      return {
+        get: id => client.getVrf(id),
+        create: data => client.createVrf(data),
+        update: (id, data) => client.updateVrf(id, data),
+        remove: id => client.deleteVrf(id),
+      };
+    case 'devices':
+      return {
+        get: id => client.getDevice(id),
+        create: data => client.createDevice(data),
+        update: (id, data) => client.updateDevice(id, data),
+        remove: id => client.deleteDevice(id),
+      };
+    default:
+      throw new PhpIpamError(`Cannot revert changes to '${controller}' objects`, 'VALIDATION');
+  }
+}
+
+/**
+ * phpIPAM returns empty fields as null or "", so compare loosely
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  const normalize = (v: unknown): string =>
+    v === null || v === undefined ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Fields whose current value no longer matches the recorded snapshot
+ */
+function driftedFields(expected: Record<string, unknown>, current: Record<string, unknown>, fields?: string[]): string[] {
+  return (fields || Object.keys(expected))
+    .filter(f => !SERVER_FIELDS.has(f))
+    .filter(f => !sameValue(expected[f], current[f]));
+}
+
+async function getOrNull(ops: ObjectOps, id: string): Promise<Record<string, unknown> | null> {
+  try {
+    return await ops.get(id) as Record<string, unknown>;
+  } catch (error) {
+    if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reduce a change set to one change per object: its state before the first
+ * write and after the last. A call that creates and then deletes an object
+ * (a rolled-back batch) nets out to nothing to undo, which planning each
+ * write on its own against the live state would get wrong.
+ */
+function netChanges(changes: ChangeRecord[]): Array<ChangeRecord | { path: string; id: string; unchanged: true }> {
+  const objects = new Map<string, ChangeRecord[]>();
+  for (const change of changes) {
+    if (change.dryRun) continue;
+    const controller = change.path.split('/').filter(p => p)[0] || '';
+    const snapshot = (change.before || change.after || {}) as Record<string, unknown>;
+    const key = `${controller}/${snapshot.id}`;
+    // Re-inserting keeps the map ordered by each object's last write
+    const writes = objects.get(key) || [];
+    objects.delete(key);
+    objects.set(key, [...writes, change]);
+  }
+
+  return [...objects.values()].map(writes => {
+    const first = writes[0];
+    const last = writes[writes.length - 1];
+    if (writes.length === 1) return first;
+
+    const before = first.before;
+    const after = last.after;
+    const diff = netDiff(before, after);
+    if (!diff.some(d => !SERVER_FIELDS.has(d.field))) {
+      const snapshot = (first.after || first.before) as Record<string, unknown>;
+      return { path: last.path, id: String(snapshot.id), unchanged: true as const };
+    }
+    const method: ChangeRecord['method'] = !before ? 'POST' : !after ? 'DELETE' : 'PATCH';
+    return { ...last, method, before, after, diff };
+  });
+}
+
+function netDiff(before: object | null, after: object | null): FieldChange[] {
+  const a = (before || {}) as Record<string, unknown>;
+  const b = (after || {}) as Record<string, unknown>;
+  return [...new Set([...Object.keys(a), ...Object.keys(b)])]
+    .filter(field => !sameValue(a[field], b[field]))
+    .map(field => ({ field, before: a[field], after: b[field] }));
+}
+
+type RevertAction = 'delete' | 'restore' | 'recreate' | 'skip';
+
+interface RevertStep {
+  change: ChangeRecord;
+  ops: ObjectOps;
+  action: RevertAction;
+  id: string;
+  data?: Record<string, unknown>;
+  reason?: string;
+}
+
+interface RevertConflict {
+  message: string;
+  forceable: boolean;               // Field drift, which force=true overwrites
+}
+
+/**
+ * Work out how to undo one change and whether the object drifted since
+ */
+async function planStep(
+  client: PhpIpamClient,
+  change: ChangeRecord,
+  force: boolean
+): Promise<{ step: RevertStep; conflict?: RevertConflict }> {
+  const controller = change.path.split('/').filter(p => p)[0] || '';
+  const ops = objectOps(client, controller);
+  const before = (change.before || {}) as Record<string, unknown>;
+  const after = (change.after || {}) as Record<string, unknown>;
+
+  switch (change.method) {
+    case 'POST': {
+      const id = String(after.id);
+      const current = await getOrNull(ops, id);
+      if (!current) {
+        return { step: { change, ops, action: 'skip', id, reason: 'already deleted' } };
+      }
+      const step: RevertStep = { change, ops, action: 'delete', id };
+
+      // Deleting a subnet or section in phpIPAM takes its contents with it
+      if (controller === 'subnets') {
+        const addresses = await client.listAddresses(id);
+        if (addresses.length > 0) {
+          return { step, conflict: { message: `subnet ${id} now contains ${addresses.length} address(es)`, forceable: false } };
+        }
+      }
+      if (controller === 'sections') {
+        const subnets = await client.listSubnets(id);
+        if (subnets.length > 0) {
+          return { step, conflict: { message: `section ${id} now contains ${subnets.length} subnet(s)`, forceable: false } };
+        }
+      }
+
+      const drift = driftedFields(after, current);
+      if (drift.length > 0 && !force) {
+        return { step, conflict: { message: `${controller} ${id} changed since it was created (${drift.join(', ')})`, forceable: true } };
+      }
+      return { step };
+    }
+
+    case 'PATCH': {
+      const id = String(before.id);
+      const current = await getOrNull(ops, id);
+      const step: RevertStep = { change, ops, action: 'restore', id };
+      if (!current) {
+        return { step, conflict: { message: `${controller} ${id} no longer exists`, forceable: false } };
+      }
+
+      const fields = change.diff.map(d => d.field).filter(f => !SERVER_FIELDS.has(f));
+      const drift = driftedFields(after, current, fields);
+      if (drift.length > 0 && !force) {
+        return { step, conflict: { message: `${controller} ${id} changed since (${drift.join(', ')})`, forceable: true } };
+      }
+
+      step.data = Object.fromEntries(fields.map(f => [f, before[f] ?? null]));
+      return { step };
+    }
+
+    case 'DELETE': {
+      const id = String(before.id);
+      const step: RevertStep = { change, ops, action: 'recreate', id };
+
+      if (await getOrNull(ops, id)) {
+        return { step: { ...step, action: 'skip', reason: 'still exists' } };
+      }
+      if (controller === 'addresses' && typeof before.ip === 'string') {
+        const taken = typeof before.subnetId === 'string' ? await client.getAddressInSubnet(before.ip, before.subnetId) : null;
+        if (taken) {
+          return { step, conflict: { message: `address ${before.ip} has been re-assigned (id ${taken.id})`, forceable: false } };
+        }
+      }
+
+      step.data = Object.fromEntries(
+        Object.entries(before).filter(([k, v]) => !SERVER_FIELDS.has(k) && v !== null && v !== undefined)
+      );
+      return { step };
+    }
+  }
+}
+
+export interface RevertResult {
+  changeId: string;
+  tool: string;
+  steps: Array<{ method: string; path: string; action: RevertAction; id: string; newId?: string; reason?: string }>;
+}
+
+/**
+ * The checked steps that undo a change set, ready for applyRevert
+ */
+export interface RevertPlan {
+  changeId: string;
+  tool: string;
+  steps: RevertStep[];
+}
+
+/**
+ * Objects a revert plan deletes (created by the change set being undone)
+ */
+export function revertDeletes(plan: RevertPlan): Array<{ type: string; id: string; object: object | null }> {
+  return plan.steps
+    .filter(step => step.action === 'delete')
+    .map(step => ({ type: step.change.path.split('/').filter(p => p)[0] || '', id: step.id, object: step.change.after }));
+}
+
+/**
+ * Work out the steps that undo every change recorded for a tool call,
+ * without writing anything. Throws if any of them conflicts with the
+ * current state.
+ */
+export async function planRevert(
+  client: PhpIpamClient,
+  history: ChangeHistory,
+  audit: AuditLog | null,
+  instance: string,
+  changeId: string,
+  force: boolean
+): Promise<RevertPlan> {
+  const entry = history.get(changeId) || (audit ? await audit.find(changeId) : null);
+  if (!entry) {
+    throw new PhpIpamError(
+      `Change not found: ${changeId}. Only changes made since startup${audit ? ' or recorded in the audit journal' : ''} can be reverted`,
+      'NOT_FOUND'
+    );
+  }
+
+  if (entry.instance && entry.instance !== instance) {
+    throw new PhpIpamError(
+      `Change ${changeId} was made on instance '${entry.instance}'. Pass instance: '${entry.instance}' to revert it.`,
+      'VALIDATION'
+    );
+  }
+
+  const revertedBy = history.revertedBy(changeId) || (audit ? await audit.findRevert(changeId) : undefined);
+  if (revertedBy && !force) {
+    throw new PhpIpamError(`Change ${changeId} was already reverted by ${revertedBy}`, 'CONFLICT');
+  }
+
+  // Check everything before writing anything, newest object first
+  const steps: RevertStep[] = [];
+  const conflicts: RevertConflict[] = [];
+  for (const change of netChanges(entry.changes).reverse()) {
+    if ('unchanged' in change) {
+      const controller = change.path.split('/').filter(p => p)[0] || '';
+      steps.push({
+        change: { method: 'POST', path: change.path, before: null, after: null, diff: [], dryRun: false },
+        ops: objectOps(client, controller),
+        action: 'skip',
+        id: change.id,
+        reason: 'no net change from the original call',
+      });
+      continue;
+    }
+    const { step, conflict } = await planStep(client, change, force);
+    if (conflict) conflicts.push(conflict);
+    steps.push(step);
+  }
+
+  if (conflicts.length > 0) {
+    // force only overwrites drifted fields; contents, deleted objects and re-used IPs need resolving by hand
+    const hint = conflicts.every(c => c.forceable)
+      ? ' Re-run with force=true to overwrite changed fields.'
+      : conflicts.some(c => c.forceable)
+        ? ' force=true would overwrite the changed fields, but the other conflicts must be resolved first.'
+        : '';
+    throw new PhpIpamError(
+      `Cannot revert ${changeId}: ${conflicts.map(c => c.message).join('; ')}.${hint}`,
+      'CONFLICT'
+    );
+  }
+
+  return { changeId, tool: entry.tool, steps };
+}
+
+/**
+ * Carry out a revert plan, newest change first
+ */
+export async function applyRevert(plan: RevertPlan): Promise<RevertResult> {
+  const result: RevertResult = { changeId: plan.changeId, tool: plan.tool, steps: [] };
+  for (const step of plan.steps) {
+    const summary = { method: step.change.method, path: step.change.path, action: step.action, id: step.id };
+    switch (step.action) {
+      case 'delete':
+        await step.ops.remove(step.id);
+        result.steps.push(summary);
+        break;
+      case 'restore':
+        await step.ops.update(step.id, step.data!);
+        result.steps.push(summary);
+        break;
+      case 'recreate': {
+        const created = await step.ops.create(step.data!) as { id?: string };
+        result.steps.push({ ...summary, newId: created.id });
+        break;
+      }
+      case 'skip':
+        result.steps.push({ ...summary, reason: step.reason });
+        break;
+    }
+  }
+
+  return result;
+}
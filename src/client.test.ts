@@ -0,0 +1,286 @@
+import http from 'node:http';
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { FakePhpIpam, FakePhpIpamOptions } from './fake.js';
+import { PhpIpamClient } from './client.js';
+import { loadConfig } from './config.js';
+import { allocateBatch } from './batch.js';
+import { CRYPT_LIBRARIES } from './crypt.js';
+import { ChangeHistory, RevertResult, planRevert, applyRevert } from './changes.js';
+import { createAuditEntry } from './audit.js';
+import { PhpIpamError } from './types.js';
+
+let fake: FakePhpIpam | null = null;
+let client: PhpIpamClient | null = null;
+
+afterEach(async () => {
+  await client?.close();
+  await fake?.close();
+  client = null;
+  fake = null;
+});
+
+/**
+ * Start a fake phpIPAM and a client configured against it. env holds
+ * PHPIPAM_* settings without the prefix; password auth unless TOKEN is set.
+ */
+async function connect(env: Record<string, string> = {}, options: FakePhpIpamOptions = {}): Promise<PhpIpamClient> {
+  fake = new FakePhpIpam(options);
+  const settings: Record<string, string> = {
+    BASE_URL: await fake.start(),
+    APP_ID: fake.appId,
+    WRITE_ENABLED: 'true',
+    RETRY_DELAY: '1',
+    ...(env.TOKEN ? {} : { USERNAME: fake.username, PASSWORD: fake.password }),
+    ...env,
+  };
+
+  const saved = { ...process.env };
+  for (const [key, value] of Object.entries(settings)) {
+    process.env[`PHPIPAM_${key}`] = value;
+  }
+  try {
+    client = new PhpIpamClient(loadConfig());
+  } finally {
+    process.env = saved;
+  }
+  return client;
+}
+
+function addressCount(): number {
+  return fake!.snapshot().addresses.length;
+}
+
+describe.each(CRYPT_LIBRARIES)('crypt mode (%s)', library => {
+  it('reads and writes with enc_request', async () => {
+    const client = await connect({ TOKEN: 'fake-app-code', CRYPT_LIBRARY: library }, { cryptLibrary: library });
+
+    const sections = await client.listSections();
+    expect(sections.map(s => s.name)).toEqual(['Production', 'Lab']);
+
+    const address = await client.allocateFirstFree('2', { hostname: 'crypt-01' });
+    expect(address.ip).toBe('10.10.1.2');
+    await client.updateAddress(address.id, { description: 'updated' });
+    expect((await client.getAddress(address.id)).description).toBe('updated');
+  });
+
+  it('fails with AUTH on the wrong app code', async () => {
+    const client = await connect({ TOKEN: 'wrong-app-code', CRYPT_LIBRARY: library }, { cryptLibrary: library });
+    await expect(client.listSections()).rejects.toMatchObject({ code: 'AUTH' });
+  });
+});
+
+describe('AUTH_MODE=token', () => {
+  it('uses the app code as the enc_request crypt key', async () => {
+    const client = await connect({ TOKEN: 'fake-app-code', AUTH_MODE: 'token' });
+    expect(await client.getSubnetByCidr('10.10.1.0/24')).toMatchObject({ id: '2' });
+  });
+});
+
+describe('token header mode', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads and writes with the session token in the token header', async () => {
+    const request = jest.spyOn(http, 'request');
+    const client = await connect();
+
+    expect(await client.getSubnetByCidr('10.10.1.0/24')).toMatchObject({ id: '2' });
+    const address = await client.allocateFirstFree('2', { hostname: 'header-01' });
+    expect(await client.getAddress(address.id)).toMatchObject({ ip: '10.10.1.2', hostname: 'header-01' });
+
+    const sent = request.mock.calls.map(([options]) => options as http.RequestOptions);
+    const api = sent.filter(options => !options.path!.includes('/user/'));
+    expect(api.map(options => options.method)).toEqual(expect.arrayContaining(['GET', 'POST']));
+    for (const options of api) {
+      expect(options.path).not.toContain('enc_request');
+      expect((options.headers as Record<string, string>).token).toMatch(/^[0-9a-f]+$/);
+    }
+  });
+});
+
+describe('first_free allocation', () => {
+  it('takes the lowest unused addresses in order', async () => {
+    const client = await connect();
+    const first = await client.allocateFirstFree('2', { hostname: 'web-01' });
+    const second = await client.allocateFirstFree('2', { hostname: 'web-02' });
+    expect([first.ip, second.ip]).toEqual(['10.10.1.2', '10.10.1.3']);
+    expect(first).toMatchObject({ subnetId: '2', hostname: 'web-01' });
+  });
+
+  it('computes IPv6 allocations locally', async () => {
+    const client = await connect();
+    const subnet = fake!.snapshot().subnets.find(s => s.subnet.includes(':'))!;
+    const address = await client.allocateFirstFree(subnet.id, { hostname: 'v6-01' });
+    expect(address.ip).toContain(':');
+    expect(address.subnetId).toBe(subnet.id);
+  });
+});
+
+describe('batch allocation', () => {
+  it('allocates every item', async () => {
+    const client = await connect();
+    const result = await allocateBatch(client, { subnetId: '2', items: [{ hostname: 'a' }, { hostname: 'b' }] });
+    expect(result).toMatchObject({ success: true, allocated: 2 });
+    expect(result.items.map(i => i.address?.ip)).toEqual(['10.10.1.2', '10.10.1.3']);
+  });
+
+  it('rolls back earlier items when one fails, without retrying the failed create', async () => {
+    const client = await connect();
+    const before = addressCount();
+    // Fires once: a retry of the POST would succeed and leave an address behind
+    fake!.injectFault({ method: 'POST', path: '/addresses/first_free/3/', status: 503, times: 1 });
+
+    const result = await allocateBatch(client, {
+      items: [{ hostname: 'a', subnetId: '2' }, { hostname: 'b', subnetId: '2' }, { hostname: 'c', subnetId: '3' }],
+    });
+
+    expect(result).toMatchObject({ success: false, allocated: 0, rolledBack: true });
+    expect(result.items.map(i => i.status)).toEqual(['rolled_back', 'rolled_back', 'failed']);
+    expect(addressCount()).toBe(before);
+  });
+
+  it('rolls back an address whose read-back failed', async () => {
+    const client = await connect();
+    const before = addressCount();
+    fake!.injectFault({ method: 'GET', path: '/addresses/8/', status: 500 });
+
+    const result = await allocateBatch(client, { subnetId: '2', items: [{ hostname: 'a' }, { hostname: 'b' }] });
+
+    expect(result.items.map(i => [i.status, i.addressId])).toEqual([['rolled_back', '7'], ['failed', '8']]);
+    expect(addressCount()).toBe(before);
+  });
+
+  it('counts addresses that could not be rolled back', async () => {
+    const client = await connect();
+    fake!.injectFault({ method: 'POST', path: '/addresses/first_free/3/', status: 409 });
+    fake!.injectFault({ method: 'DELETE', path: '/addresses/7/', status: 500 });
+
+    const result = await allocateBatch(client, {
+      items: [{ hostname: 'a', subnetId: '2' }, { hostname: 'b', subnetId: '3' }],
+    });
+
+    expect(result).toMatchObject({ success: false, allocated: 1, rolledBack: false });
+    expect(result.items[0].status).toBe('rollback_failed');
+  });
+});
+
+describe('overlapping address space', () => {
+  it('tells same-IP addresses in different VRFs apart', async () => {
+    const client = await connect();
+    const labSubnet = await client.createSubnet({ subnet: '10.10.1.0', mask: '24', sectionId: '2', vrfId: '1' });
+    const lab = await client.createAddress({ ip: '10.10.1.10', subnetId: labSubnet.id, hostname: 'lab-web01' });
+
+    await expect(client.getAddressByIp('10.10.1.10')).rejects.toMatchObject({ code: 'CONFLICT' });
+    expect(await client.getAddressByIp('10.10.1.10', '1')).toMatchObject({ id: lab.id });
+    expect(await client.getAddressByIp('10.10.1.10', '0')).toMatchObject({ id: '2' });
+    expect(await client.getAddressInSubnet('10.10.1.10', labSubnet.id)).toMatchObject({ id: lab.id });
+    expect(await client.getAddressInSubnet('10.10.1.12', labSubnet.id)).toBeNull();
+  });
+});
+
+describe('revert', () => {
+  /**
+   * Run a write through a recorder and keep it as a change set, as the tool handler does
+   */
+  async function recordCall(history: ChangeHistory, tool: string, write: (recorder: PhpIpamClient) => Promise<unknown>): Promise<string> {
+    const recorder = client!.recorder();
+    const startedAt = Date.now();
+    const result = await write(recorder);
+    const entry = createAuditEntry({ instance: 'default', tool, args: {}, startedAt, changes: recorder.getChanges()!, result });
+    history.add(entry);
+    return entry.id;
+  }
+
+  async function revert(history: ChangeHistory, changeId: string): Promise<RevertResult> {
+    return applyRevert(await planRevert(client!.recorder(), history, null, 'default', changeId, false));
+  }
+
+  it('deletes what a call created', async () => {
+    await connect();
+    const history = new ChangeHistory();
+    const before = addressCount();
+    const changeId = await recordCall(history, 'phpipam.addresses.allocate', c => c.allocateFirstFree('2', { hostname: 'a' }));
+    expect(addressCount()).toBe(before + 1);
+
+    const result = await revert(history, changeId);
+    expect(result.steps.map(s => s.action)).toEqual(['delete']);
+    expect(addressCount()).toBe(before);
+  });
+
+  it('leaves a rolled-back batch as it is', async () => {
+    await connect();
+    const history = new ChangeHistory();
+    const before = addressCount();
+    fake!.injectFault({ method: 'POST', path: '/addresses/first_free/3/', status: 409 });
+    const changeId = await recordCall(history, 'phpipam.addresses.allocateBatch', c => allocateBatch(c, {
+      items: [{ hostname: 'a', subnetId: '2' }, { hostname: 'b', subnetId: '2' }, { hostname: 'c', subnetId: '3' }],
+    }));
+    fake!.clearFaults();
+    expect(history.get(changeId)!.changes).toHaveLength(4);
+
+    const result = await revert(history, changeId);
+    expect(result.steps.map(s => s.action)).toEqual(['skip', 'skip']);
+    expect(addressCount()).toBe(before);
+  });
+
+  it('restores fields changed by several updates to their first value', async () => {
+    const client = await connect();
+    const history = new ChangeHistory();
+    const original = (await client.getAddress('1')).description;
+    const changeId = await recordCall(history, 'phpipam.addresses.upsert', async c => {
+      await c.updateAddress('1', { description: 'first' });
+      await c.updateAddress('1', { description: 'second' });
+    });
+
+    const result = await revert(history, changeId);
+    expect(result.steps.map(s => s.action)).toEqual(['restore']);
+    expect((await client.getAddress('1')).description ?? null).toBe(original ?? null);
+  });
+});
+
+describe('response cache', () => {
+  it('serves repeated reads from the cache and drops them after a write', async () => {
+    const client = await connect({ ENABLE_CACHE: 'true' });
+    const before = await client.listAddresses('2');
+    await client.listAddresses('2');
+    expect(client.cacheStats().hits).toBe(1);
+
+    await client.allocateFirstFree('2', { hostname: 'cached-01' });
+
+    const after = await client.listAddresses('2');
+    expect(after).toHaveLength(before.length + 1);
+    expect(after.map(a => a.hostname)).toContain('cached-01');
+  });
+
+  it('shows an updated address on the next read', async () => {
+    const client = await connect({ ENABLE_CACHE: 'true' });
+    expect((await client.getAddress('1')).description).not.toBe('changed');
+    await client.updateAddress('1', { description: 'changed' });
+    expect((await client.getAddress('1')).description).toBe('changed');
+  });
+});
+
+describe('password sessions', () => {
+  it('logs in again once when the session is rejected', async () => {
+    const client = await connect();
+    await client.listSections();
+
+    fake!.expireSessions();
+    expect(await client.listSections()).toHaveLength(2);
+  });
+
+  it('gives up after one re-login', async () => {
+    const client = await connect();
+    await client.listSections();
+
+    // Two 401s: the original request and its one retry after logging in again
+    fake!.injectFault({ method: 'GET', path: '/sections/', status: 401, times: 2 });
+    const error = await client.listSections().catch(e => e);
+    expect(error).toBeInstanceOf(PhpIpamError);
+    expect(error.code).toBe('AUTH');
+
+    // Both faults were used up, so the failed call made exactly two attempts
+    expect(await client.listSections()).toHaveLength(2);
+  });
+});
@@ -7,7 +7,6 @@
  */
 
 import https from 'node:https';
-import crypto from 'node:crypto';
 import {
   PhpIpamConfig,
   PhpIpamError,
@@ -15,15 +14,36 @@ import {
   Section,
   Subnet,
   Address,
+  Vlan,
+  Vrf,
+  Device,
   SearchResult,
+  ChangeRecord,
+  FieldChange,
+  CacheEntity,
 } from './types.js';
 import { getEffectiveAuthMode } from './config.js';
+import { ResponseCache, CacheStats, cacheEntity, affectedPaths } from './cache.js';
+import { SnapshotApi, loadSnapshot } from './snapshot.js';
+import { ConcurrencyLimiter, RequestCoalescer, CircuitBreaker, CircuitStatus } from './throttle.js';
+import { Metrics, MetricFamily } from './metrics.js';
+import { encryptRequest } from './crypt.js';
+import { IpAddress, canonicalIp, canonicalCidr, parseCidr, parseIp, formatIp, firstFreeAddress } from './ipmath.js';
 
 interface RequestOptions {
   method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
   path: string;
   body?: Record<string, unknown>;
   retryCount?: number;
+  reauthenticated?: boolean;        // Already retried once after a 401
+}
+
+interface HttpOptions {
+  controller: string;               // For metrics; crypt-mode URLs do not show it
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
 }
 
 interface AuthResponseData {
@@ -32,67 +52,103 @@ interface AuthResponseData {
 }
 
 /**
- * Encrypt data using Rijndael-256 ECB mode (phpIPAM's "Crypt" security)
- * Note: Rijndael-256 with 256-bit blocks is not standard AES.
- * phpIPAM uses mcrypt's RIJNDAEL_256 which has 256-bit block size.
- * We'll use AES-256-ECB as a fallback since Node.js doesn't support Rijndael-256.
+ * Password-auth session, shared by every view of a client
  */
-function encryptRequest(data: string, key: string): string {
-  // Pad key to 32 bytes (256 bits)
-  const keyBuffer = Buffer.alloc(32);
-  Buffer.from(key).copy(keyBuffer);
-  
-  // Use AES-256-ECB (closest to Rijndael-256 in Node.js)
-  const cipher = crypto.createCipheriv('aes-256-ecb', keyBuffer, null);
-  cipher.setAutoPadding(true);
-  
-  let encrypted = cipher.update(data, 'utf8', 'base64');
-  encrypted += cipher.final('base64');
-  
-  return encodeURIComponent(encrypted);
+interface Session {
+  token: string | null;
+  expires: number;
+  renewing: Promise<string> | null; // In-flight login or extension all callers wait on
+}
+
+/** Session lifetime assumed when phpIPAM's expiry is missing or unusable */
+const DEFAULT_SESSION_LIFETIME = 5 * 60 * 60 * 1000;
+
+/** Extend a session this long before it expires */
+const SESSION_REFRESH_MARGIN = 5 * 60 * 1000;
+
+/**
+ * phpIPAM reports session expiry as "Y-m-d H:i:s" in its own timezone, taken
+ * to be ours. A value that is unparseable or already (nearly) past, e.g.
+ * from a timezone mismatch, falls back to the default lifetime; a 401 still
+ * triggers a fresh login if that guess is too long.
+ */
+function sessionExpiry(expires: string | undefined): number {
+  const now = Date.now();
+  const parsed = expires ? Date.parse(expires.trim().replace(' ', 'T')) : NaN;
+  return Number.isNaN(parsed) || parsed <= now + SESSION_REFRESH_MARGIN
+    ? now + DEFAULT_SESSION_LIFETIME
+    : parsed;
 }
 
 /**
- * Simple in-memory cache
+ * Normalize a VRF reference. phpIPAM uses "0" or null for the global routing table.
  */
-class SimpleCache {
-  private cache = new Map<string, { data: unknown; expires: number }>();
-  private ttl: number;
-  
-  constructor(ttlMs: number = 60000) {
-    this.ttl = ttlMs;
+function vrfKey(vrfId?: string | null): string {
+  return vrfId && String(vrfId) !== '0' ? String(vrfId) : '0';
+}
+
+/**
+ * Compare two IPs or CIDRs by canonical form, so compressed and expanded
+ * IPv6 notations match
+ */
+function sameIp(a: string, b: string): boolean {
+  try {
+    return a.includes('/') ? canonicalCidr(a) === canonicalCidr(b) : canonicalIp(a) === canonicalIp(b);
+  } catch {
+    return a === b;
   }
-  
-  get<T>(key: string): T | undefined {
-    const entry = this.cache.get(key);
-    if (!entry) return undefined;
-    if (Date.now() > entry.expires) {
-      this.cache.delete(key);
-      return undefined;
+}
+
+/**
+ * Drop undefined fields so planned bodies match what JSON.stringify would send
+ */
+function compact(data: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * Field-level differences between two snapshots of an object
+ */
+function diffObjects(before: object | null, after: object | null): FieldChange[] {
+  const a = (before || {}) as Record<string, unknown>;
+  const b = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (JSON.stringify(a[field]) !== JSON.stringify(b[field])) {
+      changes.push({ field, before: a[field], after: b[field] });
     }
-    return entry.data as T;
-  }
-  
-  set(key: string, data: unknown): void {
-    this.cache.set(key, { data, expires: Date.now() + this.ttl });
-  }
-  
-  clear(): void {
-    this.cache.clear();
   }
+  return changes;
 }
 
+/** Attempts at client-side IPv6 allocation before giving up on races */
+const LOCAL_ALLOCATE_ATTEMPTS = 3;
+
 export class PhpIpamClient {
   private config: PhpIpamConfig;
-  private authToken: string | null = null;
-  private tokenExpires: number = 0;
-  private cache: SimpleCache;
+  private session: Session = { token: null, expires: 0, renewing: null };
+  private cache: ResponseCache;
+  private cacheReads = true;
+  private limiter: ConcurrencyLimiter;
+  private coalescer = new RequestCoalescer();
+  private breaker: CircuitBreaker;
+  private metrics: Metrics;
+  private snapshot: SnapshotApi | null;
   private httpsAgent: https.Agent;
   private useCrypt: boolean;
+  private changes: ChangeRecord[] | null = null;
+  private created: string[] | null = null;
+  private dryRunMode = false;
   
-  constructor(config: PhpIpamConfig) {
+  constructor(config: PhpIpamConfig, metrics: Metrics = new Metrics()) {
     this.config = config;
-    this.cache = new SimpleCache(60000); // 1 minute cache
+    this.cache = new ResponseCache(config.cache);
+    this.limiter = new ConcurrencyLimiter(config.maxConcurrency);
+    this.breaker = new CircuitBreaker(config.breakerThreshold, config.breakerCooldown);
+    this.metrics = metrics;
+    metrics.collect(() => this.metricFamilies());
+    this.snapshot = config.offlineSnapshot ? new SnapshotApi(loadSnapshot(config.offlineSnapshot)) : null;
     this.httpsAgent = new https.Agent({
       rejectUnauthorized: config.verifyTls,
     });
@@ -111,18 +167,67 @@ export class PhpIpamClient {
       return this.config.token!;
     }
     
-    // Password authentication - check if we have a valid session token
-    if (this.authToken && Date.now() < this.tokenExpires) {
-      return this.authToken;
+    // Password authentication - reuse the session until it nears expiry
+    const session = this.session;
+    if (session.token && Date.now() < session.expires - SESSION_REFRESH_MARGIN) {
+      return session.token;
+    }
+    
+    // Concurrent callers share one renewal instead of each logging in
+    if (!session.renewing) {
+      session.renewing = this.renewSession().finally(() => {
+        session.renewing = null;
+      });
+    }
+    return session.renewing;
+  }
+  
+  /**
+   * Extend a session that is about to expire, or log in when there is none
+   * or phpIPAM refuses to extend it
+   */
+  private async renewSession(): Promise<string> {
+    const session = this.session;
+    if (session.token && Date.now() < session.expires) {
+      const response = await this.httpRequest({
+        controller: 'user',
+        method: 'PATCH',
+        url: `${this.config.baseUrl}/api/${this.config.appId}/user/`,
+        headers: {
+          'Content-Type': 'application/json',
+          'token': session.token,
+        },
+      }).catch(() => null);
+      
+      this.countRefresh('extend', !!response?.success);
+      if (response?.success) {
+        session.expires = sessionExpiry((response.data as Partial<AuthResponseData> | undefined)?.expires);
+        return session.token;
+      }
     }
     
-    // Authenticate and get session token
+    try {
+      const token = await this.login();
+      this.countRefresh('login', true);
+      return token;
+    } catch (error) {
+      this.countRefresh('login', false);
+      throw error;
+    }
+  }
+  
+  private countRefresh(kind: 'login' | 'extend', success: boolean): void {
+    this.metrics.authRefreshes.inc({ instance: this.config.instance, kind, outcome: success ? 'success' : 'failure' });
+  }
+  
+  private async login(): Promise<string> {
     const authUrl = `${this.config.baseUrl}/api/${this.config.appId}/user/`;
     const auth = Buffer.from(
       `${this.config.username}:${this.config.password}`
     ).toString('base64');
     
     const response = await this.httpRequest({
+      controller: 'user',
       method: 'POST',
       url: authUrl,
       headers: {
@@ -140,22 +245,74 @@ export class PhpIpamClient {
       );
     }
     
-    this.authToken = authData.token;
-    // Token typically expires in 6 hours, refresh after 5
-    this.tokenExpires = Date.now() + (5 * 60 * 60 * 1000);
+    this.session.token = authData.token;
+    this.session.expires = sessionExpiry(authData.expires);
+    return authData.token;
+  }
+  
+  /**
+   * Forget a session phpIPAM rejected, unless another caller already
+   * replaced it
+   */
+  private dropSession(token: string): void {
+    if (this.session.token === token) {
+      this.session.token = null;
+      this.session.expires = 0;
+    }
+  }
+  
+  /**
+   * Log out of phpIPAM, deleting the password-auth session. Called on
+   * shutdown; failures are ignored since the session expires anyway.
+   */
+  async close(): Promise<void> {
+    const session = this.session;
+    await session.renewing?.catch(() => undefined);
+    const token = session.token;
+    if (!token) return;
+    this.dropSession(token);
     
-    return this.authToken;
+    await this.httpRequest({
+      controller: 'user',
+      method: 'DELETE',
+      url: `${this.config.baseUrl}/api/${this.config.appId}/user/`,
+      headers: {
+        'Content-Type': 'application/json',
+        'token': token,
+      },
+    }).catch(() => undefined);
   }
   
   /**
-   * Make HTTP request with retry logic
+   * Send one HTTP request through the circuit breaker and concurrency limit.
+   * Network errors, timeouts and 5xx answers count as failures.
    */
-  private async httpRequest(options: {
-    method: string;
-    url: string;
-    headers: Record<string, string>;
-    body?: string;
-  }): Promise<ApiResponse> {
+  private async httpRequest(options: HttpOptions): Promise<ApiResponse> {
+    this.breaker.check();
+    let response: ApiResponse;
+    try {
+      response = await this.limiter.run(() => this.metrics.httpDuration.time(
+        (_error, result) => ({
+          instance: this.config.instance,
+          controller: options.controller,
+          method: options.method,
+          status: result ? String(result.code) : 'error',
+        }),
+        () => this.sendHttp(options)
+      ));
+    } catch (error) {
+      this.breaker.failure();
+      throw error;
+    }
+    if (response.code >= 500) {
+      this.breaker.failure();
+    } else {
+      this.breaker.success();
+    }
+    return response;
+  }
+  
+  private sendHttp(options: HttpOptions): Promise<ApiResponse> {
     return new Promise((resolve, reject) => {
       const urlObj = new URL(options.url);
       
@@ -231,9 +388,28 @@ export class PhpIpamClient {
   }
   
   /**
-   * Make authenticated API request
+   * Make authenticated API request. Offline clients answer from their
+   * snapshot. GETs are served from the response cache when it is enabled;
+   * recorder and dry-run views always read through. Identical GETs in
+   * flight at the same time share one request.
    */
   async request<T>(options: RequestOptions): Promise<T> {
+    if (this.snapshot) {
+      return this.snapshot.request(options.method, options.path) as T;
+    }
+    
+    if (options.method !== 'GET') {
+      this.coalescer.reset();
+      return this.send<T>(options);
+    }
+    
+    const entity = this.config.enableCache ? cacheEntity(options.path) : undefined;
+    return this.coalescer.run(options.path, () => entity
+      ? this.cache.get(options.path, entity, () => this.send<T>(options), !this.cacheReads)
+      : this.send<T>(options));
+  }
+  
+  private async send<T>(options: RequestOptions): Promise<T> {
     const { method, path, body, retryCount = 0 } = options;
     const token = await this.getAuthToken();
     
@@ -242,35 +418,23 @@ export class PhpIpamClient {
     let requestBody: string | undefined;
     
     if (this.useCrypt) {
-      // Crypt mode: encrypt the request parameters
-      const controller = path.split('/').filter(p => p)[0] || '';
-      const requestParams: Record<string, unknown> = {
-        controller: controller,
-      };
-      
-      // Parse path to extract controller and id
-      const pathParts = path.split('/').filter(p => p);
-      if (pathParts.length > 1) {
-        requestParams.id = pathParts[1];
-      }
-      
-      // Add body params for write operations
+      // Crypt mode: controller, IDs and body travel encrypted in enc_request;
+      // phpIPAM still takes the method from the HTTP request
+      const [controller = '', id, id2, id3] = path.split('/').filter(p => p).map(decodeURIComponent);
+      const requestParams: Record<string, unknown> = { controller };
+      if (id !== undefined) requestParams.id = id;
+      if (id2 !== undefined) requestParams.id2 = id2;
+      if (id3 !== undefined) requestParams.id3 = id3;
       if (body) {
         Object.assign(requestParams, body);
       }
       
-      const encryptedRequest = encryptRequest(JSON.stringify(requestParams), token);
+      const encryptedRequest = encryptRequest(JSON.stringify(requestParams), token, this.config.cryptLibrary);
       url = `${this.config.baseUrl}/api/${this.config.appId}/?enc_request=${encryptedRequest}`;
       
       headers = {
         'Content-Type': 'application/json',
       };
-      
-      // For non-GET requests, we need to indicate the method
-      if (method !== 'GET') {
-        // phpIPAM crypt mode uses query params, method is determined by request
-        // We'll try sending as the actual HTTP method
-      }
     } else {
       // Standard mode: use token in header
       url = `${this.config.baseUrl}/api/${this.config.appId}${path}`;
@@ -283,20 +447,25 @@ export class PhpIpamClient {
     
     try {
       const response = await this.httpRequest({
-        method: this.useCrypt ? 'GET' : method, // Crypt mode uses GET with encrypted params
+        controller: path.split('/').filter(p => p)[0] || '',
+        method,
         url,
         headers,
-        body: this.useCrypt ? undefined : requestBody,
+        body: requestBody,
       });
       
       if (!response.success) {
         const error = this.mapApiError(response);
         
+        // An expired or revoked session: log in again and retry, once
+        if (response.code === 401 && getEffectiveAuthMode(this.config) === 'password' && !options.reauthenticated) {
+          this.dropSession(token);
+          return this.send({ ...options, reauthenticated: true });
+        }
+        
         // Retry on transient errors
-        if (error.retryable && retryCount < this.config.maxRetries) {
-          const delay = this.config.retryDelay * Math.pow(2, retryCount);
-          await this.sleep(delay);
-          return this.request({ ...options, retryCount: retryCount + 1 });
+        if (await this.backoff(error, options)) {
+          return this.send({ ...options, retryCount: retryCount + 1 });
         }
         
         throw error;
@@ -306,10 +475,8 @@ export class PhpIpamClient {
     } catch (error) {
       if (error instanceof PhpIpamError) {
         // Retry on retryable errors
-        if (error.retryable && retryCount < this.config.maxRetries) {
-          const delay = this.config.retryDelay * Math.pow(2, retryCount);
-          await this.sleep(delay);
-          return this.request({ ...options, retryCount: retryCount + 1 });
+        if (await this.backoff(error, options)) {
+          return this.send({ ...options, retryCount: retryCount + 1 });
         }
         throw error;
       }
@@ -328,8 +495,6 @@ export class PhpIpamClient {
     const message = response.message || 'Unknown error';
     
     if (code === 401) {
-      // Clear cached auth token on auth failure
-      this.authToken = null;
       return new PhpIpamError(message, 'AUTH', code);
     }
     
@@ -352,22 +517,255 @@ export class PhpIpamClient {
     return new PhpIpamError(message, 'VALIDATION', code);
   }
   
+  /**
+   * Wait out the backoff before retrying a failed attempt, if it should be
+   * retried. An open circuit ends the retries at once; a breaker error
+   * carries its own retryAfter for the caller instead.
+   */
+  private async backoff(error: PhpIpamError, options: RequestOptions): Promise<boolean> {
+    const retryCount = options.retryCount || 0;
+    if (!error.retryable || error.retryAfter !== undefined || retryCount >= this.config.maxRetries) {
+      return false;
+    }
+    // A create that timed out may have been committed; sending it again could make a second one
+    if (options.method === 'POST' && this.created) {
+      return false;
+    }
+    if (this.breaker.isOpen()) {
+      throw this.breaker.openError();
+    }
+    this.metrics.httpRetries.inc({
+      instance: this.config.instance,
+      controller: options.path.split('/').filter(p => p)[0] || '',
+    });
+    await this.sleep(this.config.retryDelay * Math.pow(2, retryCount));
+    return true;
+  }
+  
   private sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
   
+  // =========================================================================
+  // Change Recording / Dry Run
+  // =========================================================================
+  
+  /**
+   * A view of this client that performs writes and records each one with
+   * snapshots of the object before and after it. Each tool call gets its own
+   * view, so concurrent calls never see each other's changes.
+   */
+  recorder(): PhpIpamClient {
+    const view = Object.create(this) as PhpIpamClient;
+    view.changes = [];
+    view.dryRunMode = false;
+    view.cacheReads = false;
+    return view;
+  }
+  
+  /**
+   * A view of this client that records writes instead of sending them.
+   * Reads still go to phpIPAM so the plan reflects current state.
+   */
+  dryRun(): PhpIpamClient {
+    const view = Object.create(this) as PhpIpamClient;
+    view.changes = [];
+    view.dryRunMode = true;
+    view.cacheReads = false;
+    return view;
+  }
+  
+  /**
+   * A view of this client whose reads skip the cache (and refresh it)
+   */
+  uncached(): PhpIpamClient {
+    const view = Object.create(this) as PhpIpamClient;
+    view.cacheReads = false;
+    return view;
+  }
+  
+  /**
+   * A view of this client for writes that may have to be undone. Creates are
+   * sent at most once, and the id of every object created through the view
+   * is kept even when reading the new object back fails.
+   */
+  undoable(): PhpIpamClient {
+    const view = Object.create(this) as PhpIpamClient;
+    view.created = [];
+    return view;
+  }
+  
+  /**
+   * IDs of the objects created through an undoable view, oldest first
+   * (null for other clients)
+   */
+  getCreated(): string[] | null {
+    return this.created;
+  }
+  
+  /**
+   * Writes recorded by a recorder or dry-run view (null for the base client)
+   */
+  getChanges(): ChangeRecord[] | null {
+    return this.changes;
+  }
+  
+  cacheStats(): CacheStats & { enabled: boolean } {
+    return { enabled: this.config.enableCache, ...this.cache.stats() };
+  }
+  
+  /**
+   * Drop cached responses, all or of one entity. Returns the number removed.
+   */
+  clearCache(entity?: CacheEntity): number {
+    return this.cache.clear(entity);
+  }
+  
+  /**
+   * Drop cached responses a successful write may have made stale
+   */
+  private invalidate(method: string, path: string, snapshots: Array<object | null | undefined>): void {
+    const { keys, prefixes } = affectedPaths(method, path, snapshots);
+    this.cache.invalidate(keys, prefixes);
+  }
+  
+  private record(
+    method: ChangeRecord['method'],
+    path: string,
+    body: object | undefined,
+    before: object | null,
+    after: object | null,
+    predicted?: string[]
+  ): void {
+    if (!this.changes) return;
+    this.changes.push({
+      method,
+      path,
+      body: body ? compact(body) : undefined,
+      before,
+      after,
+      diff: diffObjects(before, after),
+      dryRun: this.dryRunMode,
+      ...(predicted ? { predicted } : {}),
+    });
+  }
+  
+  /**
+   * POST a new object and return it as stored by phpIPAM
+   */
+  private async writeCreate<T extends object>(
+    path: string,
+    data: object,
+    fetch: (id: string) => Promise<T>
+  ): Promise<T> {
+    if (this.dryRunMode) {
+      const planned = compact(data) as T;
+      this.record('POST', path, data, null, planned);
+      return planned;
+    }
+    
+    const result = await this.request<{ id: string }>({
+      method: 'POST',
+      path,
+      body: data as Record<string, unknown>,
+    });
+    this.created?.push(result.id);
+    this.invalidate('POST', path, [data]);
+    const created = await fetch(result.id);
+    this.record('POST', path, data, null, created);
+    return created;
+  }
+  
+  /**
+   * PATCH an object, snapshotting it first when changes are being recorded
+   */
+  private async writeUpdate<T extends object>(
+    path: string,
+    data: object,
+    fetch: () => Promise<T>
+  ): Promise<T> {
+    const before = this.changes ? await fetch() : null;
+    
+    if (this.dryRunMode) {
+      const planned = { ...before, ...compact(data) } as T;
+      this.record('PATCH', path, data, before, planned);
+      return planned;
+    }
+    
+    await this.request<void>({
+      method: 'PATCH',
+      path,
+      body: data as Record<string, unknown>,
+    });
+    this.invalidate('PATCH', path, [before, { ...before, ...compact(data) }]);
+    const after = await fetch();
+    this.record('PATCH', path, data, before, after);
+    return after;
+  }
+  
+  /**
+   * DELETE an object, snapshotting it first when changes are being recorded
+   */
+  private async writeDelete(path: string, fetch: () => Promise<object>): Promise<void> {
+    const before = this.changes ? await fetch() : null;
+    
+    if (!this.dryRunMode) {
+      await this.request<void>({
+        method: 'DELETE',
+        path,
+      });
+      this.invalidate('DELETE', path, [before]);
+    }
+    this.record('DELETE', path, undefined, before, null);
+  }
+  
+  /**
+   * Addresses already planned for a subnet in this dry run, so repeated
+   * allocations (batches) do not all plan the same free IP
+   */
+  private plannedAddresses(subnetId: string): string[] {
+    if (!this.dryRunMode || !this.changes) return [];
+    return this.changes
+      .map(change => change.after as Partial<Address> | null)
+      .filter((a): a is Partial<Address> => Boolean(a?.ip) && a?.subnetId === subnetId)
+      .map(a => a.ip!);
+  }
+  
   // =========================================================================
   // Health Check
   // =========================================================================
   
-  async health(): Promise<{ healthy: boolean; message: string }> {
+  /**
+   * Cache and circuit breaker values for the metrics scrape
+   */
+  private metricFamilies(): MetricFamily[] {
+    const labels = { instance: this.config.instance };
+    const stats = this.cache.stats();
+    const circuit = this.breaker.status();
+    return [
+      { name: 'phpipam_cache_hits_total', help: 'Response cache hits, including stale ones', type: 'counter',
+        samples: [{ labels, value: stats.hits + stats.staleHits }] },
+      { name: 'phpipam_cache_misses_total', help: 'Response cache misses', type: 'counter',
+        samples: [{ labels, value: stats.misses }] },
+      { name: 'phpipam_cache_entries', help: 'Responses currently cached', type: 'gauge',
+        samples: [{ labels, value: stats.size }] },
+      { name: 'phpipam_circuit_open', help: 'Whether the circuit breaker is holding requests back (1) or not (0)', type: 'gauge',
+        samples: [{ labels, value: circuit.state === 'closed' ? 0 : 1 }] },
+    ];
+  }
+  
+  async health(): Promise<{ healthy: boolean; message: string; circuit?: CircuitStatus }> {
+    if (this.snapshot) {
+      return { healthy: true, message: `Offline: answering from snapshot taken ${this.snapshot.createdAt}` };
+    }
+    
     try {
       // Make an actual API call to verify full connectivity
       await this.listSections();
-      return { healthy: true, message: 'Connected to phpIPAM' };
+      return { healthy: true, message: 'Connected to phpIPAM', circuit: this.breaker.status() };
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
-      return { healthy: false, message };
+      return { healthy: false, message, circuit: this.breaker.status() };
     }
   }
   
@@ -376,20 +774,10 @@ export class PhpIpamClient {
   // =========================================================================
   
   async listSections(): Promise<Section[]> {
-    if (this.config.enableCache) {
-      const cached = this.cache.get<Section[]>('sections');
-      if (cached) return cached;
-    }
-    
     const sections = await this.request<Section[]>({
       method: 'GET',
       path: '/sections/',
     });
-    
-    if (this.config.enableCache) {
-      this.cache.set('sections', sections);
-    }
-    
     return sections || [];
   }
   
@@ -406,12 +794,15 @@ export class PhpIpamClient {
   }
   
   async createSection(data: Partial<Section>): Promise<Section> {
-    const result = await this.request<{ id: string }>({
-      method: 'POST',
-      path: '/sections/',
-      body: data as Record<string, unknown>,
-    });
-    return this.getSection(result.id);
+    return this.writeCreate('/sections/', data, id => this.getSection(id));
+  }
+  
+  async updateSection(id: string, data: Partial<Section>): Promise<Section> {
+    return this.writeUpdate(`/sections/${id}/`, data, () => this.getSection(id));
+  }
+  
+  async deleteSection(id: string): Promise<void> {
+    return this.writeDelete(`/sections/${id}/`, () => this.getSection(id));
   }
   
   // =========================================================================
@@ -419,22 +810,11 @@ export class PhpIpamClient {
   // =========================================================================
   
   async listSubnets(sectionId: string): Promise<Subnet[]> {
-    const cacheKey = `subnets:${sectionId}`;
-    if (this.config.enableCache) {
-      const cached = this.cache.get<Subnet[]>(cacheKey);
-      if (cached) return cached;
-    }
-    
     try {
       const subnets = await this.request<Subnet[]>({
         method: 'GET',
         path: `/sections/${sectionId}/subnets/`,
       });
-      
-      if (this.config.enableCache) {
-        this.cache.set(cacheKey, subnets);
-      }
-      
       return subnets || [];
     } catch (error) {
       if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
@@ -451,28 +831,110 @@ export class PhpIpamClient {
     });
   }
   
-  async getSubnetByCidr(cidr: string): Promise<Subnet | null> {
+  /**
+   * Look up a subnet by CIDR, optionally within a single VRF.
+   * Overlapping space may exist in several VRFs; without a vrfId such a
+   * lookup is ambiguous and rejected rather than returning an arbitrary match.
+   */
+  async getSubnetByCidr(cidr: string, vrfId?: string): Promise<Subnet | null> {
+    // phpIPAM expects address and mask as separate path segments; an encoded
+    // slash (%2F) is rejected by most web servers
+    const [subnet, mask] = cidr.split('/');
+    let result: Subnet[];
     try {
-      const result = await this.request<Subnet[]>({
+      result = await this.request<Subnet[]>({
         method: 'GET',
-        path: `/subnets/cidr/${encodeURIComponent(cidr)}/`,
+        path: `/subnets/cidr/${encodeURIComponent(subnet)}/${encodeURIComponent(mask)}/`,
       });
-      return result && result.length > 0 ? result[0] : null;
     } catch (error) {
       if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
         return null;
       }
       throw error;
     }
+    
+    const matches = (result || []).filter(s =>
+      sameIp(`${s.subnet}/${s.mask}`, cidr) &&
+      (vrfId === undefined || vrfKey(s.vrfId) === vrfKey(vrfId))
+    );
+    
+    const vrfs = new Set(matches.map(s => vrfKey(s.vrfId)));
+    if (vrfs.size > 1) {
+      throw new PhpIpamError(
+        `Subnet ${cidr} exists in multiple VRFs (${[...vrfs].join(', ')}). Specify vrf.`,
+        'CONFLICT'
+      );
+    }
+    
+    return matches.length > 0 ? matches[0] : null;
   }
   
   async createSubnet(data: Partial<Subnet>): Promise<Subnet> {
-    const result = await this.request<{ id: string }>({
+    return this.writeCreate('/subnets/', data, id => this.getSubnet(id));
+  }
+  
+  async updateSubnet(id: string, data: Partial<Subnet>): Promise<Subnet> {
+    return this.writeUpdate(`/subnets/${id}/`, data, () => this.getSubnet(id));
+  }
+  
+  async deleteSubnet(id: string): Promise<void> {
+    return this.writeDelete(`/subnets/${id}/`, () => this.getSubnet(id));
+  }
+  
+  async listChildSubnets(parentId: string): Promise<Subnet[]> {
+    try {
+      const subnets = await this.request<Subnet[]>({
+        method: 'GET',
+        path: `/subnets/${parentId}/slaves/`,
+      });
+      return subnets || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  /**
+   * Create the first free child subnet of the given mask inside a parent.
+   * phpIPAM answers first_subnet with the new CIDR rather than an object,
+   * so the created subnet is resolved from the parent's children.
+   */
+  async allocateFirstSubnet(parentId: string, mask: number, data: Partial<Subnet>): Promise<Subnet> {
+    const path = `/subnets/${parentId}/first_subnet/${mask}/`;
+    if (this.dryRunMode) {
+      // GET on first_subnet reports the next free CIDR without creating it
+      const next = await this.request<string>({ method: 'GET', path });
+      const [subnet, nextMask] = String(next).split('/');
+      const after = compact({ ...data, subnet, mask: nextMask, masterSubnetId: parentId }) as unknown as Subnet;
+      this.record('POST', path, data, null, after, ['subnet', 'mask']);
+      return after;
+    }
+    
+    const result = await this.request<string | { id: string }>({
       method: 'POST',
-      path: '/subnets/',
+      path,
       body: data as Record<string, unknown>,
     });
-    return this.getSubnet(result.id);
+    this.invalidate('POST', path, [data]);
+    
+    let created: Subnet | undefined;
+    if (result && typeof result === 'object' && result.id) {
+      created = await this.getSubnet(result.id);
+    } else {
+      const children = await this.listChildSubnets(parentId);
+      created = children.find(s => sameIp(`${s.subnet}/${s.mask}`, String(result)));
+    }
+    
+    if (!created) {
+      throw new PhpIpamError(
+        `Subnet ${String(result)} was created but could not be found under parent ${parentId}`,
+        'INTERNAL'
+      );
+    }
+    this.record('POST', path, data, null, created);
+    return created;
   }
   
   // =========================================================================
@@ -501,55 +963,366 @@ export class PhpIpamClient {
     });
   }
   
-  async getAddressByIp(ip: string): Promise<Address | null> {
+  /**
+   * Look up an address by IP, optionally within a single VRF.
+   * Results are resolved to their subnet's VRF when a vrfId is given or
+   * when the IP appears more than once.
+   */
+  async getAddressByIp(ip: string, vrfId?: string): Promise<Address | null> {
+    const candidates = await this.addressesWithIp(ip);
+    if (vrfId === undefined && candidates.length <= 1) {
+      return candidates.length > 0 ? candidates[0] : null;
+    }
+    
+    const subnetVrfs = new Map<string, string>();
+    for (const address of candidates) {
+      if (!subnetVrfs.has(address.subnetId)) {
+        const subnet = await this.getSubnet(address.subnetId);
+        subnetVrfs.set(address.subnetId, vrfKey(subnet.vrfId));
+      }
+    }
+    
+    const matches = candidates.filter(a =>
+      vrfId === undefined || subnetVrfs.get(a.subnetId) === vrfKey(vrfId)
+    );
+    
+    const vrfs = new Set(matches.map(a => subnetVrfs.get(a.subnetId)));
+    if (vrfs.size > 1) {
+      throw new PhpIpamError(
+        `Address ${ip} exists in multiple VRFs (${[...vrfs].join(', ')}). Specify vrf.`,
+        'CONFLICT'
+      );
+    }
+    
+    return matches.length > 0 ? matches[0] : null;
+  }
+  
+  /**
+   * Look up an address by IP within one subnet
+   */
+  async getAddressInSubnet(ip: string, subnetId: string): Promise<Address | null> {
+    return (await this.addressesWithIp(ip)).find(a => a.subnetId === subnetId) || null;
+  }
+  
+  /**
+   * Every address record with this IP, in any subnet or VRF
+   */
+  private async addressesWithIp(ip: string): Promise<Address[]> {
+    let result: Address[];
     try {
-      const result = await this.request<Address[]>({
+      result = await this.request<Address[]>({
         method: 'GET',
         path: `/addresses/search/${encodeURIComponent(ip)}/`,
       });
-      return result && result.length > 0 ? result[0] : null;
     } catch (error) {
       if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
-        return null;
+        return [];
       }
       throw error;
     }
+    return (result || []).filter(a => sameIp(a.ip, ip));
   }
   
   async allocateFirstFree(subnetId: string, data: Partial<Address>): Promise<Address> {
-    const result = await this.request<{ id: string }>({
-      method: 'POST',
-      path: `/addresses/first_free/${subnetId}/`,
-      body: data as Record<string, unknown>,
-    });
-    return this.getAddress(result.id);
+    const subnet = await this.getSubnet(subnetId);
+    if (parseIp(subnet.subnet).version === 6) {
+      return this.allocateFirstFreeLocal(subnet, data);
+    }
+    
+    const path = `/addresses/first_free/${subnetId}/`;
+    if (this.dryRunMode) {
+      // Plan the request the live call sends; phpIPAM picks the address then,
+      // so the one shown is the first gap now, after this run's other plans
+      const free = firstFreeAddress(parseCidr(`${subnet.subnet}/${subnet.mask}`), await this.usedAddresses(subnet));
+      if (!free) {
+        throw new PhpIpamError(`No free addresses in subnet ${subnet.subnet}/${subnet.mask}`, 'CONFLICT');
+      }
+      const planned = compact({ ...data, ip: formatIp(free), subnetId }) as unknown as Address;
+      this.record('POST', path, data, null, planned, ['ip']);
+      return planned;
+    }
+    
+    return this.writeCreate(path, data, id => this.getAddress(id));
+  }
+  
+  /**
+   * phpIPAM's first_free walks the address space server-side, which is
+   * unreliable on large IPv6 subnets. Compute the first gap from the used
+   * list instead and create it, retrying if another client takes it first.
+   */
+  private async allocateFirstFreeLocal(subnet: Subnet, data: Partial<Address>): Promise<Address> {
+    const prefix = parseCidr(`${subnet.subnet}/${subnet.mask}`);
+    const used = await this.usedAddresses(subnet);
+    
+    for (let attempt = 0; attempt < LOCAL_ALLOCATE_ATTEMPTS; attempt++) {
+      const free = firstFreeAddress(prefix, used);
+      if (!free) {
+        throw new PhpIpamError(`No free addresses in subnet ${subnet.subnet}/${subnet.mask}`, 'CONFLICT');
+      }
+      
+      try {
+        return await this.createAddress({ ...data, ip: formatIp(free), subnetId: subnet.id });
+      } catch (error) {
+        if (error instanceof PhpIpamError && error.code === 'CONFLICT') {
+          used.push(free);
+          continue;
+        }
+        throw error;
+      }
+    }
+    
+    throw new PhpIpamError(
+      `Could not allocate an address in ${subnet.subnet}/${subnet.mask} after ${LOCAL_ALLOCATE_ATTEMPTS} attempts`,
+      'RETRYABLE',
+      undefined,
+      true
+    );
+  }
+  
+  /**
+   * Addresses taken in a subnet: existing ones, the gateway, and any already
+   * planned in this dry run
+   */
+  private async usedAddresses(subnet: Subnet): Promise<IpAddress[]> {
+    return (await this.listAddresses(subnet.id))
+      .map(a => a.ip)
+      .concat(this.plannedAddresses(subnet.id))
+      .concat(subnet.gateway?.ip_addr ? [subnet.gateway.ip_addr] : [])
+      .map(ip => parseIp(ip));
   }
   
   async createAddress(data: Partial<Address>): Promise<Address> {
-    const result = await this.request<{ id: string }>({
-      method: 'POST',
-      path: '/addresses/',
-      body: data as Record<string, unknown>,
-    });
-    return this.getAddress(result.id);
+    return this.writeCreate('/addresses/', data, id => this.getAddress(id));
   }
   
   async updateAddress(id: string, data: Partial<Address>): Promise<Address> {
-    await this.request<void>({
-      method: 'PATCH',
-      path: `/addresses/${id}/`,
-      body: data as Record<string, unknown>,
-    });
-    return this.getAddress(id);
+    return this.writeUpdate(`/addresses/${id}/`, data, () => this.getAddress(id));
   }
   
   async deleteAddress(id: string): Promise<void> {
-    await this.request<void>({
-      method: 'DELETE',
-      path: `/addresses/${id}/`,
+    return this.writeDelete(`/addresses/${id}/`, () => this.getAddress(id));
+  }
+  
+  // =========================================================================
+  // VRFs
+  // =========================================================================
+  
+  async listVrfs(): Promise<Vrf[]> {
+    try {
+      const vrfs = await this.request<Vrf[]>({
+        method: 'GET',
+        path: '/vrf/',
+      });
+      return vrfs || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  async getVrf(id: string): Promise<Vrf> {
+    return this.request<Vrf>({
+      method: 'GET',
+      path: `/vrf/${id}/`,
     });
   }
   
+  async getVrfByName(name: string): Promise<Vrf | null> {
+    const vrfs = await this.listVrfs();
+    return vrfs.find(v => v.name.toLowerCase() === name.toLowerCase()) || null;
+  }
+  
+  async listVrfSubnets(id: string): Promise<Subnet[]> {
+    try {
+      const subnets = await this.request<Subnet[]>({
+        method: 'GET',
+        path: `/vrf/${id}/subnets/`,
+      });
+      return subnets || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  async createVrf(data: Partial<Vrf>): Promise<Vrf> {
+    return this.writeCreate('/vrf/', data, id => this.getVrf(id));
+  }
+  
+  async updateVrf(id: string, data: Partial<Vrf>): Promise<Vrf> {
+    return this.writeUpdate(`/vrf/${id}/`, data, () => this.getVrf(id));
+  }
+  
+  async deleteVrf(id: string): Promise<void> {
+    return this.writeDelete(`/vrf/${id}/`, () => this.getVrf(id));
+  }
+  
+  // =========================================================================
+  // VLANs
+  // =========================================================================
+  
+  async listVlans(domainId?: string): Promise<Vlan[]> {
+    const path = domainId ? `/l2domains/${domainId}/vlans/` : '/vlan/';
+    try {
+      const vlans = await this.request<Vlan[]>({
+        method: 'GET',
+        path,
+      });
+      return vlans || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  async getVlan(id: string): Promise<Vlan> {
+    return this.request<Vlan>({
+      method: 'GET',
+      path: `/vlan/${id}/`,
+    });
+  }
+  
+  /**
+   * Look up a VLAN by its 802.1Q number.
+   * VLAN numbers are only unique within an L2 domain, so when the number
+   * exists in several domains and no domainId is given the lookup is ambiguous.
+   */
+  async getVlanByNumber(number: string, domainId?: string): Promise<Vlan | null> {
+    let result: Vlan[];
+    try {
+      result = await this.request<Vlan[]>({
+        method: 'GET',
+        path: `/vlan/search/${encodeURIComponent(number)}/`,
+      });
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return null;
+      }
+      throw error;
+    }
+    
+    const matches = (result || []).filter(v =>
+      String(v.number) === String(number) &&
+      (!domainId || String(v.domainId) === String(domainId))
+    );
+    
+    if (matches.length > 1) {
+      const domains = matches.map(v => v.domainId).join(', ');
+      throw new PhpIpamError(
+        `VLAN ${number} exists in multiple L2 domains (${domains}). Specify domainId.`,
+        'CONFLICT'
+      );
+    }
+    
+    return matches.length > 0 ? matches[0] : null;
+  }
+  
+  async listVlanSubnets(vlanId: string, sectionId?: string): Promise<Subnet[]> {
+    const path = sectionId
+      ? `/vlan/${vlanId}/subnets/${sectionId}/`
+      : `/vlan/${vlanId}/subnets/`;
+    try {
+      const subnets = await this.request<Subnet[]>({
+        method: 'GET',
+        path,
+      });
+      return subnets || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  async createVlan(data: Partial<Vlan>): Promise<Vlan> {
+    return this.writeCreate('/vlan/', data, id => this.getVlan(id));
+  }
+  
+  async updateVlan(id: string, data: Partial<Vlan>): Promise<Vlan> {
+    return this.writeUpdate(`/vlan/${id}/`, data, () => this.getVlan(id));
+  }
+  
+  async deleteVlan(id: string): Promise<void> {
+    return this.writeDelete(`/vlan/${id}/`, () => this.getVlan(id));
+  }
+  
+  // =========================================================================
+  // Devices
+  // =========================================================================
+  
+  async listDevices(): Promise<Device[]> {
+    try {
+      const devices = await this.request<Device[]>({
+        method: 'GET',
+        path: '/devices/',
+      });
+      return devices || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  async getDevice(id: string): Promise<Device> {
+    return this.request<Device>({
+      method: 'GET',
+      path: `/devices/${id}/`,
+    });
+  }
+  
+  async getDeviceByHostname(hostname: string): Promise<Device | null> {
+    try {
+      const result = await this.request<Device[]>({
+        method: 'GET',
+        path: `/devices/search/${encodeURIComponent(hostname)}/`,
+      });
+      return (result || []).find(
+        d => d.hostname?.toLowerCase() === hostname.toLowerCase()
+      ) || null;
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return null;
+      }
+      throw error;
+    }
+  }
+  
+  async listDeviceAddresses(id: string): Promise<Address[]> {
+    try {
+      const addresses = await this.request<Address[]>({
+        method: 'GET',
+        path: `/devices/${id}/addresses/`,
+      });
+      return addresses || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
+  
+  async createDevice(data: Partial<Device>): Promise<Device> {
+    return this.writeCreate('/devices/', data, id => this.getDevice(id));
+  }
+  
+  async updateDevice(id: string, data: Partial<Device>): Promise<Device> {
+    return this.writeUpdate(`/devices/${id}/`, data, () => this.getDevice(id));
+  }
+  
+  async deleteDevice(id: string): Promise<void> {
+    return this.writeDelete(`/devices/${id}/`, () => this.getDevice(id));
+  }
+  
   // =========================================================================
   // Search
   // =========================================================================
@@ -583,4 +1356,22 @@ export class PhpIpamClient {
       throw error;
     }
   }
+  
+  /**
+   * Addresses whose hostname starts with prefix
+   */
+  async searchByHostnamePrefix(prefix: string): Promise<Address[]> {
+    try {
+      const result = await this.request<Address[]>({
+        method: 'GET',
+        path: `/addresses/search_hostbase/${encodeURIComponent(prefix)}/`,
+      });
+      return result || [];
+    } catch (error) {
+      if (error instanceof PhpIpamError && error.code === 'NOT_FOUND') {
+        return [];
+      }
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,163 @@
+/**
+ * MCP argument completion
+ *
+ * Suggests section names, subnet CIDRs and hostnames while an operator fills
+ * in prompt, resource template or tool arguments, so they pick an existing
+ * value instead of typing one freehand. Arguments are matched by name:
+ *
+ *   section, name (section tools)        Section names
+ *   sectionId, id (section templates)    Section IDs
+ *   cidr, parentCidr, subnet, parent     CIDRs, within the chosen section if any
+ *   hostname                             Address and device hostnames by prefix
+ *
+ * MCP has no completion reference for tools, so a ref/prompt naming a tool
+ * (e.g. phpipam.subnets.get) completes that tool's arguments.
+ */
+
+import { CompleteRequest, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import { PhpIpamClient } from './client.js';
+import { Section, Subnet } from './types.js';
+import { parseCidr, comparePrefix } from './ipmath.js';
+
+/** Most values one completion may return (protocol limit) */
+export const MAX_COMPLETION_VALUES = 100;
+
+/** How long looked-up values are reused between keystrokes */
+const COMPLETION_CACHE_TTL = 30000;
+
+type CompletionKind = 'section' | 'sectionId' | 'cidr' | 'hostname';
+
+type CompletionParams = CompleteRequest['params'];
+
+function completionKind(ref: CompletionParams['ref'], argument: string): CompletionKind | undefined {
+  if (ref.type === 'ref/resource') {
+    if (ref.uri.startsWith('phpipam://subnet/') && argument === 'cidr') return 'cidr';
+    if (ref.uri.startsWith('phpipam://section/') && argument === 'id') return 'sectionId';
+    return undefined;
+  }
+
+  switch (argument) {
+    case 'section':
+      return 'section';
+    case 'sectionId':
+      return 'sectionId';
+    case 'cidr':
+    case 'parentCidr':
+    case 'subnet':
+    case 'parent':
+      return 'cidr';
+    case 'hostname':
+      return 'hostname';
+    case 'name':
+      return ref.name.startsWith('phpipam.sections.') ? 'section' : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Case-insensitive prefix matches first, then other substring matches
+ */
+function rankMatches(values: string[], typed: string): string[] {
+  const needle = typed.toLowerCase();
+  const prefixed = values.filter(v => v.toLowerCase().startsWith(needle));
+  const contained = values.filter(v => !v.toLowerCase().startsWith(needle) && v.toLowerCase().includes(needle));
+  return [...prefixed, ...contained];
+}
+
+function result(values: string[]): CompleteResult['completion'] {
+  const unique = [...new Set(values)];
+  return {
+    values: unique.slice(0, MAX_COMPLETION_VALUES),
+    total: unique.length,
+    hasMore: unique.length > MAX_COMPLETION_VALUES,
+  };
+}
+
+/**
+ * Completion source for one phpIPAM instance
+ */
+export class Completer {
+  private client: PhpIpamClient;
+  // Completion fires per keystroke, so lookups are reused even with PHPIPAM_ENABLE_CACHE off
+  private cache = new Map<string, { data: unknown; expires: number }>();
+
+  constructor(client: PhpIpamClient) {
+    this.client = client;
+  }
+
+  async complete(params: CompletionParams): Promise<CompleteResult['completion']> {
+    const { ref, argument, context } = params;
+    const typed = argument.value.trim();
+    const known = context?.arguments || {};
+
+    switch (completionKind(ref, argument.name)) {
+      case 'section': {
+        const sections = await this.sections();
+        return result(rankMatches(sections.map(s => s.name), typed));
+      }
+      case 'sectionId': {
+        const sections = await this.sections();
+        return result(sections.map(s => s.id).filter(id => id.startsWith(typed)));
+      }
+      case 'cidr': {
+        const scope = known.section || known.sectionId;
+        const subnets = await this.subnets(scope);
+        const cidrs = subnets
+          .filter(s => s.isFolder !== '1')
+          .sort((a, b) => comparePrefix(parseCidr(`${a.subnet}/${a.mask}`), parseCidr(`${b.subnet}/${b.mask}`)))
+          .map(s => `${s.subnet}/${s.mask}`);
+        return result(cidrs.filter(c => c.startsWith(typed)));
+      }
+      case 'hostname':
+        return result(await this.hostnames(typed));
+      default:
+        return result([]);
+    }
+  }
+
+  private async cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const hit = this.cache.get(key);
+    if (hit && Date.now() < hit.expires) return hit.data as T;
+    const data = await load();
+    this.cache.set(key, { data, expires: Date.now() + COMPLETION_CACHE_TTL });
+    return data;
+  }
+
+  private sections(): Promise<Section[]> {
+    return this.cached('sections', () => this.client.listSections());
+  }
+
+  /**
+   * Subnets of the named section (by name or ID), or of every section when
+   * none was chosen yet. An unknown section yields nothing.
+   */
+  private async subnets(section: string | undefined): Promise<Subnet[]> {
+    const sections = await this.sections();
+    const scoped = section
+      ? sections.filter(s => s.id === section || s.name.toLowerCase() === section.toLowerCase())
+      : sections;
+
+    const subnets: Subnet[] = [];
+    for (const s of scoped) {
+      subnets.push(...await this.cached(`subnets:${s.id}`, () => this.client.listSubnets(s.id)));
+    }
+    return subnets;
+  }
+
+  private async hostnames(prefix: string): Promise<string[]> {
+    // Every hostname matches an empty prefix; wait for the first character
+    if (!prefix) return [];
+
+    const key = prefix.toLowerCase();
+    return this.cached(`hostnames:${key}`, async () => {
+      const [addresses, devices] = await Promise.all([
+        this.client.searchByHostnamePrefix(prefix),
+        this.cached('devices', () => this.client.listDevices()),
+      ]);
+      return [...addresses.map(a => a.hostname), ...devices.map(d => d.hostname)]
+        .filter((h): h is string => !!h && h.toLowerCase().startsWith(key))
+        .sort((a, b) => a.localeCompare(b));
+    });
+  }
+}
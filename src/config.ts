@@ -2,14 +2,16 @@
  * Configuration management for phpIPAM MCP Server
  * 
  * Supports two authentication modes:
- * - Token: API token-based authentication (App security = "SSL with App code token")
+ * - Token: requests encrypted with the app code (App security = "Encrypted")
  * - Password: Username/password authentication (App security = "User token")
  * 
  * Auto mode will detect which credentials are provided and use the appropriate method.
  * If both are provided, token authentication takes precedence.
  */
 
-import { PhpIpamConfig, AuthMode, PhpIpamError } from './types.js';
+import { PhpIpamConfig, ServerConfig, TransportMode, AuthMode, CryptLibrary, PhpIpamError, WritePolicy, CacheConfig, CacheEntity } from './types.js';
+import { canonicalCidr } from './ipmath.js';
+import { CRYPT_LIBRARIES } from './crypt.js';
 
 /**
  * Parse boolean from environment variable
@@ -29,54 +31,278 @@ function parseInt(value: string | undefined, defaultValue: number): number {
 }
 
 /**
- * Load configuration from environment variables
+ * Parse comma-separated list from environment variable
  */
-export function loadConfig(): PhpIpamConfig {
-  const baseUrl = process.env.PHPIPAM_BASE_URL;
-  const appId = process.env.PHPIPAM_APP_ID;
+function parseList(value: string | undefined): string[] {
+  if (value === undefined) return [];
+  return value.split(',').map(v => v.trim()).filter(v => v);
+}
+
+export const DEFAULT_INSTANCE = 'default';
+
+/**
+ * Settings that identify and authenticate against a phpIPAM instance, or
+ * stand in for it with a snapshot. In multi-instance mode these are never
+ * inherited from the unprefixed variables, so one instance's credentials or
+ * data cannot leak to another.
+ */
+const CONNECTION_KEYS = new Set([
+  'BASE_URL', 'APP_ID', 'AUTH_MODE', 'TOKEN', 'CRYPT_LIBRARY', 'USERNAME', 'PASSWORD', 'OFFLINE_SNAPSHOT', 'SNAPSHOT_PATH',
+]);
+
+interface EnvReader {
+  get(key: string): string | undefined;
+  name(key: string): string;
+}
+
+/**
+ * Environment lookup for one instance. Instance "lab" reads PHPIPAM_LAB_*
+ * and falls back to PHPIPAM_* for everything except connection settings.
+ */
+function instanceEnv(instance: string): EnvReader {
+  const prefix = instance === DEFAULT_INSTANCE
+    ? 'PHPIPAM_'
+    : `PHPIPAM_${instance.toUpperCase().replace(/-/g, '_')}_`;
+  const name = (key: string): string => prefix + key;
+  return {
+    name,
+    get: key => {
+      const value = process.env[name(key)];
+      if (value !== undefined || prefix === 'PHPIPAM_' || CONNECTION_KEYS.has(key)) {
+        return value;
+      }
+      return process.env[`PHPIPAM_${key}`];
+    },
+  };
+}
+
+export const CACHE_ENTITIES: CacheEntity[] = ['sections', 'subnets', 'addresses', 'vlans', 'vrfs', 'devices', 'search'];
+
+/**
+ * Cache settings. PHPIPAM_CACHE_TTL is the default for every entity and
+ * PHPIPAM_CACHE_TTL_<ENTITY> overrides it (e.g., PHPIPAM_CACHE_TTL_ADDRESSES=15).
+ */
+function loadCacheConfig(env: EnvReader): CacheConfig {
+  const defaultTtl = parseInt(env.get('CACHE_TTL'), 60);
+  const ttl = Object.fromEntries(CACHE_ENTITIES.map(entity =>
+    [entity, parseInt(env.get(`CACHE_TTL_${entity.toUpperCase()}`), defaultTtl)]
+  )) as Record<CacheEntity, number>;
   
-  if (!baseUrl) {
+  const maxEntries = parseInt(env.get('CACHE_MAX_ENTRIES'), 1000);
+  if (maxEntries < 1) {
+    throw new PhpIpamError(`${env.name('CACHE_MAX_ENTRIES')} must be at least 1`, 'VALIDATION');
+  }
+  
+  return {
+    ttl,
+    maxEntries,
+    staleSeconds: Math.max(0, parseInt(env.get('CACHE_STALE'), 0)),
+  };
+}
+
+/**
+ * Parse the write policy from PHPIPAM_POLICY_* environment variables
+ */
+function loadPolicy(env: EnvReader): WritePolicy {
+  const cidrs = parseList(env.get('POLICY_CIDRS')).map(cidr => {
+    try {
+      return canonicalCidr(cidr);
+    } catch (error) {
+      throw new PhpIpamError(
+        `Invalid ${env.name('POLICY_CIDRS')} entry: ${cidr}. ${error instanceof Error ? error.message : error}`,
+        'VALIDATION'
+      );
+    }
+  });
+  
+  // "10" sets the default cap, "addresses.allocateBatch=50" a per-tool one
+  const maxOps: Record<string, number> = {};
+  for (const entry of parseList(env.get('POLICY_MAX_OPS'))) {
+    const [tool, limit] = entry.includes('=') ? entry.split('=', 2).map(v => v.trim()) : ['*', entry];
+    const parsed = Number(limit);
+    if (!tool || !Number.isInteger(parsed) || parsed < 1) {
+      throw new PhpIpamError(
+        `Invalid ${env.name('POLICY_MAX_OPS')} entry: ${entry}. Use a number or tool=number`,
+        'VALIDATION'
+      );
+    }
+    maxOps[tool.replace(/^phpipam\./, '')] = parsed;
+  }
+  
+  return {
+    sections: parseList(env.get('POLICY_SECTIONS')),
+    subnets: parseList(env.get('POLICY_SUBNETS')),
+    cidrs,
+    allowTools: parseList(env.get('POLICY_ALLOW_TOOLS')),
+    denyTools: parseList(env.get('POLICY_DENY_TOOLS')),
+    maxOps,
+  };
+}
+
+/**
+ * Load configuration for one instance from environment variables
+ */
+export function loadConfig(instance: string = DEFAULT_INSTANCE): PhpIpamConfig {
+  const env = instanceEnv(instance);
+  const baseUrl = env.get('BASE_URL');
+  const appId = env.get('APP_ID');
+  
+  // An offline instance answers from a snapshot and never connects
+  const offlineSnapshot = env.get('OFFLINE_SNAPSHOT') || undefined;
+  
+  if (!baseUrl && !offlineSnapshot) {
     throw new PhpIpamError(
-      'PHPIPAM_BASE_URL is required. Set the base URL of your phpIPAM instance (e.g., https://phpipam.example.com)',
+      `${env.name('BASE_URL')} is required. Set the base URL of your phpIPAM instance (e.g., https://phpipam.example.com)`,
       'VALIDATION'
     );
   }
   
-  if (!appId) {
+  if (!appId && !offlineSnapshot) {
     throw new PhpIpamError(
-      'PHPIPAM_APP_ID is required. Set the API application ID configured in phpIPAM',
+      `${env.name('APP_ID')} is required. Set the API application ID configured in phpIPAM`,
       'VALIDATION'
     );
   }
   
-  const authMode = (process.env.PHPIPAM_AUTH_MODE || 'auto') as AuthMode;
-  const token = process.env.PHPIPAM_TOKEN;
-  const username = process.env.PHPIPAM_USERNAME;
-  const password = process.env.PHPIPAM_PASSWORD;
+  const authMode = (env.get('AUTH_MODE') || 'auto') as AuthMode;
+  const token = env.get('TOKEN');
+  const username = env.get('USERNAME');
+  const password = env.get('PASSWORD');
   
   // Validate auth configuration
-  validateAuthConfig(authMode, token, username, password);
+  if (!offlineSnapshot) {
+    validateAuthConfig(env, authMode, token, username, password);
+  }
+  
+  const cryptLibrary = (env.get('CRYPT_LIBRARY') || 'mcrypt') as CryptLibrary;
+  if (!CRYPT_LIBRARIES.includes(cryptLibrary)) {
+    throw new PhpIpamError(
+      `Invalid ${env.name('CRYPT_LIBRARY')}: ${cryptLibrary}. Must be ${CRYPT_LIBRARIES.map(l => `'${l}'`).join(' or ')}`,
+      'VALIDATION'
+    );
+  }
+  
+  const maxConcurrency = parseInt(env.get('MAX_CONCURRENCY'), 8);
+  if (maxConcurrency < 1) {
+    throw new PhpIpamError(`${env.name('MAX_CONCURRENCY')} must be at least 1`, 'VALIDATION');
+  }
   
   return {
-    baseUrl: baseUrl.replace(/\/$/, ''), // Remove trailing slash
-    appId,
+    instance,
+    baseUrl: (baseUrl || '').replace(/\/$/, ''), // Remove trailing slash
+    appId: appId || '',
     authMode,
     token,
+    cryptLibrary,
     username,
     password,
     
     // Feature toggles with secure defaults
-    writeEnabled: parseBool(process.env.PHPIPAM_WRITE_ENABLED, false),
-    verifyTls: parseBool(process.env.PHPIPAM_VERIFY_TLS, true),
-    enableCache: parseBool(process.env.PHPIPAM_ENABLE_CACHE, false),
-    debugHttp: parseBool(process.env.PHPIPAM_DEBUG_HTTP, false),
-    allowSubnetCreate: parseBool(process.env.PHPIPAM_ALLOW_SUBNET_CREATE, false),
-    allowSectionCreate: parseBool(process.env.PHPIPAM_ALLOW_SECTION_CREATE, false),
+    writeEnabled: !offlineSnapshot && parseBool(env.get('WRITE_ENABLED'), false),
+    verifyTls: parseBool(env.get('VERIFY_TLS'), true),
+    enableCache: parseBool(env.get('ENABLE_CACHE'), false),
+    cache: loadCacheConfig(env),
+    debugHttp: parseBool(env.get('DEBUG_HTTP'), false),
+    allowSubnetCreate: parseBool(env.get('ALLOW_SUBNET_CREATE'), false),
+    allowSectionCreate: parseBool(env.get('ALLOW_SECTION_CREATE'), false),
+    dryRun: parseBool(env.get('DRY_RUN'), false),
+    confirmDeletes: parseBool(env.get('CONFIRM_DELETES'), false),
+    confirmTtl: parseInt(env.get('CONFIRM_TTL'), 120),
+    
+    // Snapshots
+    offlineSnapshot,
+    snapshotPath: env.get('SNAPSHOT_PATH') || undefined,
+    
+    // Audit journal (shared by all instances)
+    auditLogPath: process.env.PHPIPAM_AUDIT_LOG || undefined,
+    
+    // Write policy
+    policy: loadPolicy(env),
     
     // Timeouts and retries
-    timeout: parseInt(process.env.PHPIPAM_TIMEOUT, 30000),
-    maxRetries: parseInt(process.env.PHPIPAM_MAX_RETRIES, 3),
-    retryDelay: parseInt(process.env.PHPIPAM_RETRY_DELAY, 1000),
+    timeout: parseInt(env.get('TIMEOUT'), 30000),
+    maxRetries: parseInt(env.get('MAX_RETRIES'), 3),
+    retryDelay: parseInt(env.get('RETRY_DELAY'), 1000),
+    
+    // Flow control
+    maxConcurrency,
+    breakerThreshold: Math.max(0, parseInt(env.get('BREAKER_THRESHOLD'), 5)),
+    breakerCooldown: parseInt(env.get('BREAKER_COOLDOWN'), 30000),
+  };
+}
+
+/**
+ * Load every configured instance. Without PHPIPAM_INSTANCES there is a single
+ * instance named "default" configured by the plain PHPIPAM_* variables.
+ */
+export function loadInstances(): { defaultInstance: string; configs: PhpIpamConfig[] } {
+  const names = parseList(process.env.PHPIPAM_INSTANCES);
+  if (names.length === 0) {
+    return { defaultInstance: DEFAULT_INSTANCE, configs: [loadConfig()] };
+  }
+  
+  for (const name of names) {
+    if (!/^[a-z][a-z0-9_-]*$/i.test(name) || name === DEFAULT_INSTANCE) {
+      throw new PhpIpamError(
+        `Invalid instance name in PHPIPAM_INSTANCES: ${name}. Use letters, digits, - and _ (and not "${DEFAULT_INSTANCE}")`,
+        'VALIDATION'
+      );
+    }
+  }
+  if (new Set(names).size !== names.length) {
+    throw new PhpIpamError('PHPIPAM_INSTANCES contains duplicate names', 'VALIDATION');
+  }
+  
+  const defaultInstance = process.env.PHPIPAM_DEFAULT_INSTANCE || names[0];
+  if (!names.includes(defaultInstance)) {
+    throw new PhpIpamError(
+      `PHPIPAM_DEFAULT_INSTANCE (${defaultInstance}) is not listed in PHPIPAM_INSTANCES`,
+      'VALIDATION'
+    );
+  }
+  
+  return { defaultInstance, configs: names.map(name => loadConfig(name)) };
+}
+
+/**
+ * Load the server-wide transport settings
+ */
+export function loadServerConfig(): ServerConfig {
+  const transport = (process.env.PHPIPAM_TRANSPORT || 'stdio') as TransportMode;
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new PhpIpamError(
+      `Invalid PHPIPAM_TRANSPORT: ${transport}. Must be 'stdio' or 'http'`,
+      'VALIDATION'
+    );
+  }
+  
+  const httpTokens = parseList(process.env.PHPIPAM_HTTP_TOKENS);
+  if (transport === 'http' && httpTokens.length === 0) {
+    throw new PhpIpamError(
+      'PHPIPAM_HTTP_TOKENS is required when PHPIPAM_TRANSPORT=http. Set one or more bearer tokens clients must present',
+      'VALIDATION'
+    );
+  }
+  
+  const httpPath = process.env.PHPIPAM_HTTP_PATH || '/mcp';
+  
+  const metricsPort = process.env.PHPIPAM_METRICS_PORT ? Number(process.env.PHPIPAM_METRICS_PORT) : undefined;
+  if (metricsPort !== undefined && (!Number.isInteger(metricsPort) || metricsPort < 1 || metricsPort > 65535)) {
+    throw new PhpIpamError(
+      `Invalid PHPIPAM_METRICS_PORT: ${process.env.PHPIPAM_METRICS_PORT}. Must be a port number`,
+      'VALIDATION'
+    );
+  }
+  
+  return {
+    transport,
+    httpHost: process.env.PHPIPAM_HTTP_HOST || '127.0.0.1',
+    httpPort: parseInt(process.env.PHPIPAM_HTTP_PORT, 3000),
+    httpPath: httpPath.startsWith('/') ? httpPath : `/${httpPath}`,
+    httpTokens,
+    shutdownTimeout: parseInt(process.env.PHPIPAM_SHUTDOWN_TIMEOUT, 10000),
+    metricsHost: process.env.PHPIPAM_METRICS_HOST || '127.0.0.1',
+    metricsPort,
   };
 }
 
@@ -84,6 +310,7 @@ export function loadConfig(): PhpIpamConfig {
  * Validate authentication configuration
  */
 function validateAuthConfig(
+  env: EnvReader,
   authMode: AuthMode,
   token?: string,
   username?: string,
@@ -96,7 +323,7 @@ function validateAuthConfig(
     case 'token':
       if (!hasToken) {
         throw new PhpIpamError(
-          'PHPIPAM_TOKEN is required when PHPIPAM_AUTH_MODE=token',
+          `${env.name('TOKEN')} is required when ${env.name('AUTH_MODE')}=token`,
           'VALIDATION'
         );
       }
@@ -105,7 +332,7 @@ function validateAuthConfig(
     case 'password':
       if (!hasPassword) {
         throw new PhpIpamError(
-          'PHPIPAM_USERNAME and PHPIPAM_PASSWORD are required when PHPIPAM_AUTH_MODE=password',
+          `${env.name('USERNAME')} and ${env.name('PASSWORD')} are required when ${env.name('AUTH_MODE')}=password`,
           'VALIDATION'
         );
       }
@@ -115,8 +342,8 @@ function validateAuthConfig(
       if (!hasToken && !hasPassword) {
         throw new PhpIpamError(
           'Authentication credentials required. Provide either:\n' +
-          '  - PHPIPAM_TOKEN for token authentication, or\n' +
-          '  - PHPIPAM_USERNAME and PHPIPAM_PASSWORD for password authentication',
+          `  - ${env.name('TOKEN')} for token authentication, or\n` +
+          `  - ${env.name('USERNAME')} and ${env.name('PASSWORD')} for password authentication`,
           'VALIDATION'
         );
       }
@@ -124,7 +351,7 @@ function validateAuthConfig(
       
     default:
       throw new PhpIpamError(
-        `Invalid PHPIPAM_AUTH_MODE: ${authMode}. Must be 'token', 'password', or 'auto'`,
+        `Invalid ${env.name('AUTH_MODE')}: ${authMode}. Must be 'token', 'password', or 'auto'`,
         'VALIDATION'
       );
   }
@@ -146,6 +373,12 @@ export function getEffectiveAuthMode(config: PhpIpamConfig): 'token' | 'password
  * Check if a write operation is allowed
  */
 export function assertWriteEnabled(config: PhpIpamConfig, operation: string): void {
+  if (config.offlineSnapshot) {
+    throw new PhpIpamError(
+      `Write operation '${operation}' is unavailable: the server is answering from the offline snapshot ${config.offlineSnapshot}`,
+      'FORBIDDEN'
+    );
+  }
   if (!config.writeEnabled) {
     throw new PhpIpamError(
       `Write operation '${operation}' is disabled. Set PHPIPAM_WRITE_ENABLED=true to enable write operations.`,
@@ -157,8 +390,8 @@ export function assertWriteEnabled(config: PhpIpamConfig, operation: string): vo
 /**
  * Check if subnet creation is allowed
  */
-export function assertSubnetCreateEnabled(config: PhpIpamConfig): void {
-  assertWriteEnabled(config, 'subnets.ensure');
+export function assertSubnetCreateEnabled(config: PhpIpamConfig, operation: string = 'subnets.ensure'): void {
+  assertWriteEnabled(config, operation);
   if (!config.allowSubnetCreate) {
     throw new PhpIpamError(
       'Subnet creation is disabled. Set PHPIPAM_ALLOW_SUBNET_CREATE=true to enable.',
@@ -185,20 +418,64 @@ export function assertSectionCreateEnabled(config: PhpIpamConfig): void {
  */
 export function maskConfig(config: PhpIpamConfig): Record<string, unknown> {
   return {
+    instance: config.instance,
     baseUrl: config.baseUrl,
     appId: config.appId,
     authMode: config.authMode,
     token: config.token ? '***REDACTED***' : undefined,
+    cryptLibrary: config.cryptLibrary,
     username: config.username,
     password: config.password ? '***REDACTED***' : undefined,
     writeEnabled: config.writeEnabled,
     verifyTls: config.verifyTls,
     enableCache: config.enableCache,
+    cache: config.cache,
     debugHttp: config.debugHttp,
     allowSubnetCreate: config.allowSubnetCreate,
     allowSectionCreate: config.allowSectionCreate,
+    dryRun: config.dryRun,
+    confirmDeletes: config.confirmDeletes,
+    confirmTtl: config.confirmTtl,
+    offlineSnapshot: config.offlineSnapshot,
+    snapshotPath: config.snapshotPath,
+    auditLogPath: config.auditLogPath,
+    policy: config.policy,
     timeout: config.timeout,
     maxRetries: config.maxRetries,
     retryDelay: config.retryDelay,
+    maxConcurrency: config.maxConcurrency,
+    breakerThreshold: config.breakerThreshold,
+    breakerCooldown: config.breakerCooldown,
+  };
+}
+
+/**
+ * Mask sensitive server settings for logging
+ */
+export function maskServerConfig(config: ServerConfig): Record<string, unknown> {
+  return {
+    ...config,
+    httpTokens: config.httpTokens.length > 0 ? `***REDACTED*** (${config.httpTokens.length})` : undefined,
+  };
+}
+
+/**
+ * Argument names whose values must never be logged
+ */
+const SENSITIVE_ARG = /pass(word|phrase)?|secret|token|credential|api[-_]?key/i;
+
+/**
+ * Mask sensitive values in tool arguments for logging and auditing
+ */
+export function maskArgs(args: Record<string, unknown>): Record<string, unknown> {
+  const mask = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(mask);
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, SENSITIVE_ARG.test(k) ? '***REDACTED***' : mask(v)])
+      );
+    }
+    return value;
   };
+  return mask(args) as Record<string, unknown>;
 }
@@ -0,0 +1,92 @@
+/**
+ * Delete confirmation tokens
+ *
+ * With PHPIPAM_CONFIRM_DELETES=true, a destructive tool first returns what it
+ * would destroy together with a short-lived token. Only a second call that
+ * presents the token deletes anything. A token is single-use and bound to the
+ * tool, the resolved object (including its last edit) and the arguments.
+ */
+
+import crypto from 'node:crypto';
+import { PhpIpamError } from './types.js';
+
+export const DEFAULT_CONFIRM_TTL = 120;
+
+/**
+ * Arguments that do not change what a call destroys
+ */
+const UNBOUND_ARGS = new Set(['confirmToken', 'dryRun']);
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+export interface ConfirmationRequest {
+  confirmationRequired: true;
+  confirmToken: string;
+  expiresAt: string;
+  message: string;
+}
+
+function fingerprint(tool: string, target: object, args: Record<string, unknown>): string {
+  const bound = Object.keys(args)
+    .filter(k => !UNBOUND_ARGS.has(k) && args[k] !== undefined)
+    .sort()
+    .map(k => [k, args[k]]);
+  return crypto.createHash('sha256').update(JSON.stringify([tool, target, bound])).digest('hex');
+}
+
+export class ConfirmationTokens {
+  private pending = new Map<string, PendingConfirmation>();
+
+  /**
+   * Issue a token for deleting target with exactly these arguments
+   */
+  issue(
+    tool: string,
+    target: object,
+    args: Record<string, unknown>,
+    ttlSeconds: number = DEFAULT_CONFIRM_TTL
+  ): ConfirmationRequest {
+    this.prune();
+    const token = crypto.randomBytes(9).toString('base64url');
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+    this.pending.set(token, { fingerprint: fingerprint(tool, target, args), expiresAt });
+    return {
+      confirmationRequired: true,
+      confirmToken: token,
+      expiresAt: new Date(expiresAt).toISOString(),
+      message: 'Nothing was deleted. Repeat the call with the same arguments and confirmToken to proceed.',
+    };
+  }
+
+  /**
+   * Redeem a token. It is spent even when it does not match, so a wrong
+   * guess cannot be retried against another target.
+   */
+  consume(token: string, tool: string, target: object, args: Record<string, unknown>): void {
+    const pending = this.pending.get(token);
+    this.pending.delete(token);
+
+    if (!pending) {
+      throw new PhpIpamError('Unknown or already used confirmToken. Call again without it to get a new one.', 'FORBIDDEN');
+    }
+    if (pending.expiresAt < Date.now()) {
+      throw new PhpIpamError('confirmToken has expired. Call again without it to get a new one.', 'FORBIDDEN');
+    }
+    if (pending.fingerprint !== fingerprint(tool, target, args)) {
+      throw new PhpIpamError(
+        'confirmToken was issued for a different target or different arguments, or the object changed since. Nothing was deleted.',
+        'FORBIDDEN'
+      );
+    }
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.pending) {
+      if (pending.expiresAt < now) this.pending.delete(token);
+    }
+  }
+}
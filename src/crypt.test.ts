@@ -0,0 +1,76 @@
+import crypto from 'node:crypto';
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import { CRYPT_LIBRARIES, encryptRequest, decryptRequest } from './crypt.js';
+
+describe.each(CRYPT_LIBRARIES)('%s', library => {
+  const key = 'fake-app-code';
+
+  it.each([
+    '{"controller":"sections"}',
+    '{"controller":"addresses","id":"first_free","id2":"2","hostname":"wëb-01"}',
+    'x'.repeat(32),
+    '',
+  ])('round-trips %j', data => {
+    const encrypted = encryptRequest(data, key, library);
+    expect(encrypted).toMatch(/^[A-Za-z0-9%._~-]*$/);
+    expect(decryptRequest(decodeURIComponent(encrypted), key, library)).toBe(data);
+  });
+
+  it('does not decrypt with another key', () => {
+    const encrypted = decodeURIComponent(encryptRequest('{"controller":"sections"}', key, library));
+    let plain: string | undefined;
+    try {
+      plain = decryptRequest(encrypted, 'another-app-code', library);
+    } catch {
+      return;
+    }
+    expect(plain).not.toBe('{"controller":"sections"}');
+  });
+});
+
+// Known answers computed outside this module: mcrypt with the rijndael-js
+// package, openssl-128-cbc with the openssl command line tool
+const appCode = 'aBcDeFgHiJkLmNoPqRsTuVwXyZ012345';
+
+describe('mcrypt', () => {
+  it.each([
+    ['{"controller":"sections"}', 'M14/t+Afrv9SqERkiKgcsXGdx9kJP+JYYqkucuAa8dg='],
+    [
+      '{"controller":"addresses","id":"first_free","id2":"2"}',
+      'xag41bURXrvxEpns4R9msvmmFY8yORnPh9smJLOZ5ixL0qOzKB5VX+eZqrzQq9L1chxYdVax5jdqzGvJB0fAGg==',
+    ],
+  ])('matches MCRYPT_RIJNDAEL_256 in ECB mode for %j', (data, expected) => {
+    expect(decodeURIComponent(encryptRequest(data, appCode))).toBe(expected);
+    expect(decryptRequest(expected, appCode)).toBe(data);
+  });
+
+  it('is deterministic, zero padded to 256-bit blocks', () => {
+    const a = decodeURIComponent(encryptRequest('{"controller":"sections"}', 'key'));
+    expect(a).toBe(decodeURIComponent(encryptRequest('{"controller":"sections"}', 'key')));
+    expect(Buffer.from(a, 'base64')).toHaveLength(32);
+  });
+});
+
+describe('openssl-128-cbc', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('matches openssl_encrypt AES-128-CBC with a fixed IV', () => {
+    const iv = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+    jest.spyOn(crypto, 'randomBytes').mockImplementation((() => Buffer.from(iv)) as unknown as typeof crypto.randomBytes);
+    const expected = 'AAECAwQFBgcICQoLDA0ODxPtFZ0m3XkBBzYgklQUmAp/9QAPzTZ/o+5x853tZTEOsCJqNcH7KYBrLQxocj6QXIthoF7+iTiQ9hOI9xIc+yk=';
+
+    expect(decodeURIComponent(encryptRequest('{"controller":"sections"}', appCode, 'openssl-128-cbc'))).toBe(expected);
+    expect(decryptRequest(expected, appCode, 'openssl-128-cbc')).toBe('{"controller":"sections"}');
+  });
+
+  it('uses a fresh IV and rejects a tampered ciphertext', () => {
+    const a = decodeURIComponent(encryptRequest('{"controller":"sections"}', 'key', 'openssl-128-cbc'));
+    expect(a).not.toBe(decodeURIComponent(encryptRequest('{"controller":"sections"}', 'key', 'openssl-128-cbc')));
+
+    const tampered = Buffer.from(a, 'base64');
+    tampered[tampered.length - 1] ^= 1;
+    expect(() => decryptRequest(tampered.toString('base64'), 'key', 'openssl-128-cbc')).toThrow('HMAC mismatch');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * phpIPAM "Crypt" request encryption
+ *
+ * With app security set to crypt, requests carry their parameters in an
+ * enc_request query argument encrypted with the app code instead of a token
+ * header. phpIPAM has used two ciphers for this, selected on the server by
+ * $api_crypt_encryption_library in config.php:
+ *
+ *   mcrypt            Rijndael with 256-bit blocks in ECB mode, zero padded.
+ *                     The only option before phpIPAM 1.4.
+ *   openssl-128-cbc   AES-128-CBC with a random IV and an HMAC-SHA256 tag,
+ *                     keyed by SHA-256 of the app code. The 1.4+ default.
+ *
+ * Node's OpenSSL has no 256-bit block Rijndael, so it is implemented here.
+ */
+
+import crypto from 'node:crypto';
+import { CryptLibrary } from './types.js';
+
+// =============================================================================
+// Rijndael
+// =============================================================================
+
+const SBOX = new Uint8Array(256);
+const INV_SBOX = new Uint8Array(256);
+
+function xtime(b: number): number {
+  return ((b << 1) ^ (b & 0x80 ? 0x1b : 0)) & 0xff;
+}
+
+function gmul(a: number, b: number): number {
+  let product = 0;
+  for (; b; b >>= 1, a = xtime(a)) {
+    if (b & 1) product ^= a;
+  }
+  return product;
+}
+
+// S-box from the multiplicative inverse in GF(2^8) and the affine transform
+(() => {
+  const rotl = (x: number, shift: number) => ((x << shift) | (x >> (8 - shift))) & 0xff;
+  let p = 1;
+  let q = 1;
+  do {
+    p = p ^ xtime(p);                                  // p *= 3
+    q ^= q << 1;                                       // q /= 3
+    q ^= q << 2;
+    q ^= q << 4;
+    q &= 0xff;
+    if (q & 0x80) q ^= 0x09;
+    SBOX[p] = q ^ rotl(q, 1) ^ rotl(q, 2) ^ rotl(q, 3) ^ rotl(q, 4) ^ 0x63;
+  } while (p !== 1);
+  SBOX[0] = 0x63;
+  for (let i = 0; i < 256; i++) {
+    INV_SBOX[SBOX[i]] = i;
+  }
+})();
+
+/**
+ * Rijndael block cipher for any of its 128, 192 or 256-bit block and key
+ * sizes. AES is the 128-bit block subset.
+ */
+class Rijndael {
+  readonly blockSize: number;
+  private readonly nb: number;                         // Block size in 32-bit columns
+  private readonly rounds: number;
+  private readonly shifts: number[];                   // ShiftRows offset per row
+  private readonly roundKeys: Uint8Array;
+
+  constructor(key: Uint8Array, blockSize: number) {
+    if (![16, 24, 32].includes(key.length) || ![16, 24, 32].includes(blockSize)) {
+      throw new Error('Rijndael key and block sizes must be 16, 24 or 32 bytes');
+    }
+    this.blockSize = blockSize;
+    this.nb = blockSize / 4;
+    const nk = key.length / 4;
+    this.rounds = Math.max(nk, this.nb) + 6;
+    this.shifts = this.nb === 8 ? [0, 1, 3, 4] : [0, 1, 2, 3];
+
+    // Key schedule: words of 4 bytes, nb per round key
+    const words = this.nb * (this.rounds + 1);
+    const w = new Uint8Array(words * 4);
+    w.set(key);
+    let rcon = 1;
+    for (let i = nk; i < words; i++) {
+      const t = w.slice((i - 1) * 4, i * 4);
+      if (i % nk === 0) {
+        t.set([SBOX[t[1]] ^ rcon, SBOX[t[2]], SBOX[t[3]], SBOX[t[0]]]);
+        rcon = xtime(rcon);
+      } else if (nk > 6 && i % nk === 4) {
+        t.set(t.map(b => SBOX[b]));
+      }
+      for (let j = 0; j < 4; j++) {
+        w[i * 4 + j] = w[(i - nk) * 4 + j] ^ t[j];
+      }
+    }
+    this.roundKeys = w;
+  }
+
+  encryptBlock(input: Uint8Array): Uint8Array {
+    const state = Uint8Array.from(input);
+    this.addRoundKey(state, 0);
+    for (let round = 1; round <= this.rounds; round++) {
+      for (let i = 0; i < state.length; i++) state[i] = SBOX[state[i]];
+      this.shiftRows(state, false);
+      if (round < this.rounds) this.mixColumns(state, false);
+      this.addRoundKey(state, round);
+    }
+    return state;
+  }
+
+  decryptBlock(input: Uint8Array): Uint8Array {
+    const state = Uint8Array.from(input);
+    this.addRoundKey(state, this.rounds);
+    for (let round = this.rounds - 1; round >= 0; round--) {
+      this.shiftRows(state, true);
+      for (let i = 0; i < state.length; i++) state[i] = INV_SBOX[state[i]];
+      this.addRoundKey(state, round);
+      if (round > 0) this.mixColumns(state, true);
+    }
+    return state;
+  }
+
+  private addRoundKey(state: Uint8Array, round: number): void {
+    const offset = round * this.blockSize;
+    for (let i = 0; i < state.length; i++) {
+      state[i] ^= this.roundKeys[offset + i];
+    }
+  }
+
+  // State byte (row r, column c) lives at r + 4c
+  private shiftRows(state: Uint8Array, inverse: boolean): void {
+    const copy = Uint8Array.from(state);
+    for (let r = 1; r < 4; r++) {
+      for (let c = 0; c < this.nb; c++) {
+        const shifted = r + 4 * ((c + this.shifts[r]) % this.nb);
+        if (inverse) {
+          state[shifted] = copy[r + 4 * c];
+        } else {
+          state[r + 4 * c] = copy[shifted];
+        }
+      }
+    }
+  }
+
+  private mixColumns(state: Uint8Array, inverse: boolean): void {
+    const [m0, m1, m2, m3] = inverse ? [14, 11, 13, 9] : [2, 3, 1, 1];
+    for (let c = 0; c < this.nb; c++) {
+      const [a0, a1, a2, a3] = state.subarray(4 * c, 4 * c + 4);
+      state[4 * c] = gmul(a0, m0) ^ gmul(a1, m1) ^ gmul(a2, m2) ^ gmul(a3, m3);
+      state[4 * c + 1] = gmul(a0, m3) ^ gmul(a1, m0) ^ gmul(a2, m1) ^ gmul(a3, m2);
+      state[4 * c + 2] = gmul(a0, m2) ^ gmul(a1, m3) ^ gmul(a2, m0) ^ gmul(a3, m1);
+      state[4 * c + 3] = gmul(a0, m1) ^ gmul(a1, m2) ^ gmul(a2, m3) ^ gmul(a3, m0);
+    }
+  }
+}
+
+// =============================================================================
+// mcrypt (Rijndael-256 ECB)
+// =============================================================================
+
+/**
+ * mcrypt pads a short key with zero bytes to the next valid Rijndael key size
+ */
+function mcryptKey(key: string): Buffer {
+  const raw = Buffer.from(key, 'utf8').subarray(0, 32);
+  const size = [16, 24, 32].find(s => s >= raw.length)!;
+  const padded = Buffer.alloc(size);
+  raw.copy(padded);
+  return padded;
+}
+
+function mcryptEncrypt(data: Buffer, key: string): Buffer {
+  const cipher = new Rijndael(mcryptKey(key), 32);
+  // mcrypt pads with zero bytes, and not at all when the length already fits
+  const padded = Buffer.alloc(Math.ceil(data.length / 32) * 32);
+  data.copy(padded);
+  for (let offset = 0; offset < padded.length; offset += 32) {
+    padded.set(cipher.encryptBlock(padded.subarray(offset, offset + 32)), offset);
+  }
+  return padded;
+}
+
+function mcryptDecrypt(data: Buffer, key: string): Buffer {
+  if (data.length % 32 !== 0) {
+    throw new Error('Ciphertext is not a whole number of 256-bit blocks');
+  }
+  const cipher = new Rijndael(mcryptKey(key), 32);
+  const plain = Buffer.alloc(data.length);
+  for (let offset = 0; offset < data.length; offset += 32) {
+    plain.set(cipher.decryptBlock(data.subarray(offset, offset + 32)), offset);
+  }
+  let end = plain.length;
+  while (end > 0 && plain[end - 1] === 0) end--;
+  return plain.subarray(0, end);
+}
+
+// =============================================================================
+// OpenSSL (AES-128-CBC + HMAC-SHA256)
+// =============================================================================
+
+// Output layout, as phpIPAM's Crypto class writes it: IV, HMAC, ciphertext
+const IV_LENGTH = 16;
+const HMAC_LENGTH = 32;
+
+function opensslEncrypt(data: Buffer, key: string): Buffer {
+  const digest = crypto.createHash('sha256').update(key, 'utf8').digest();
+  const iv = crypto.randomBytes(IV_LENGTH);
+  // PHP's openssl_encrypt silently truncates the 32-byte digest to the cipher's key size
+  const cipher = crypto.createCipheriv('aes-128-cbc', digest.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  const hmac = crypto.createHmac('sha256', digest).update(ciphertext).digest();
+  return Buffer.concat([iv, hmac, ciphertext]);
+}
+
+function opensslDecrypt(data: Buffer, key: string): Buffer {
+  const digest = crypto.createHash('sha256').update(key, 'utf8').digest();
+  const iv = data.subarray(0, IV_LENGTH);
+  const hmac = data.subarray(IV_LENGTH, IV_LENGTH + HMAC_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH + HMAC_LENGTH);
+  const expected = crypto.createHmac('sha256', digest).update(ciphertext).digest();
+  if (hmac.length !== HMAC_LENGTH || !crypto.timingSafeEqual(hmac, expected)) {
+    throw new Error('HMAC mismatch');
+  }
+  const decipher = crypto.createDecipheriv('aes-128-cbc', digest.subarray(0, 16), iv);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// =============================================================================
+// Requests
+// =============================================================================
+
+export const CRYPT_LIBRARIES: CryptLibrary[] = ['mcrypt', 'openssl-128-cbc'];
+
+/**
+ * Encrypt request parameters with the app code, ready to use as the
+ * enc_request query value (base64, URL-encoded)
+ */
+export function encryptRequest(data: string, key: string, library: CryptLibrary = 'mcrypt'): string {
+  const plain = Buffer.from(data, 'utf8');
+  const encrypted = library === 'mcrypt' ? mcryptEncrypt(plain, key) : opensslEncrypt(plain, key);
+  return encodeURIComponent(encrypted.toString('base64'));
+}
+
+/**
+ * Reverse of encryptRequest, taking the already URL-decoded enc_request value
+ */
+export function decryptRequest(encrypted: string, key: string, library: CryptLibrary = 'mcrypt'): string {
+  const data = Buffer.from(encrypted, 'base64');
+  const plain = library === 'mcrypt' ? mcryptDecrypt(data, key) : opensslDecrypt(data, key);
+  return plain.toString('utf8');
+}
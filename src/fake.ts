@@ -0,0 +1,675 @@
+/**
+ * Fake phpIPAM
+ *
+ * A localhost stand-in for the phpIPAM REST API, so PhpIpamClient and the MCP
+ * tools can run in CI or against agent prompts without a real phpIPAM. It
+ * implements the controllers the client uses (sections, subnets, addresses,
+ * VLANs, VRFs, devices, first_free, first_subnet, search, search_hostname,
+ * cidr) and user sessions, in both token-header and enc_request crypt modes.
+ *
+ * State starts from a small seeded dataset or any snapshot file and lives in
+ * memory. Latency and error injection let tests exercise retries and timeouts.
+ *
+ * Run it directly with `node dist/fake.js`; FAKE_PHPIPAM_* variables set the
+ * port, credentials, latency and seed snapshot.
+ */
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { PhpIpamError, ErrorCode, CryptLibrary, Subnet, Address } from './types.js';
+import { Snapshot, SnapshotApi, SNAPSHOT_FORMAT, SNAPSHOT_VERSION, loadSnapshot } from './snapshot.js';
+import { decryptRequest } from './crypt.js';
+import {
+  parseIp,
+  parseCidr,
+  formatIp,
+  formatCidr,
+  canonicalCidr,
+  prefixContains,
+  prefixesOverlap,
+  prefixRange,
+  freeRanges,
+  rangeToPrefixes,
+  firstFreeAddress,
+} from './ipmath.js';
+
+export interface FaultRule {
+  method?: string;                  // Only this HTTP method (default: any)
+  path?: string;                    // Only API paths starting with this, e.g. /subnets/ (default: any)
+  status: number;                   // HTTP status to answer with; 0 drops the connection
+  message?: string;
+  times?: number;                   // Fire this many times, then stop (default: every time)
+}
+
+export interface FakePhpIpamOptions {
+  host?: string;
+  port?: number;                    // 0 picks a free port
+  appId?: string;
+  token?: string;                   // Static app code: token header, or the crypt key
+  cryptLibrary?: CryptLibrary;      // Cipher enc_request parameters are encrypted with
+  username?: string;
+  password?: string;
+  sessionTtl?: number;              // Seconds a password-auth session token lives
+  latencyMs?: number;               // Delay before every response
+  seed?: Snapshot;                  // Initial data (default: a small sample IPAM)
+  faults?: FaultRule[];
+}
+
+interface FakeResponse {
+  status: number;
+  data?: unknown;
+  message?: string;
+  id?: string;
+}
+
+type Collection = 'sections' | 'subnets' | 'addresses' | 'vlans' | 'vrfs' | 'devices';
+
+const COLLECTIONS: Record<string, Collection> = {
+  sections: 'sections',
+  subnets: 'subnets',
+  addresses: 'addresses',
+  vlan: 'vlans',
+  vrf: 'vrfs',
+  devices: 'devices',
+};
+
+const ERROR_STATUS: Record<ErrorCode, number> = {
+  AUTH: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  VALIDATION: 400,
+  RETRYABLE: 503,
+  INTERNAL: 500,
+};
+
+/**
+ * Sample IPAM: two sections, nested IPv4 and IPv6 space, VLANs, a VRF and
+ * a few hosts. Returns a fresh copy every call.
+ */
+export function seedDataset(): Snapshot {
+  const subnet = (id: string, cidr: string, extra: Partial<Subnet> & { sectionId: string }): Subnet => {
+    const [address, mask] = cidr.split('/');
+    return { id, subnet: address, mask, masterSubnetId: '0', vrfId: '0', vlanId: '0', isFolder: '0', ...extra };
+  };
+  const address = (id: string, subnetId: string, ip: string, hostname: string, extra: Partial<Address> = {}): Address =>
+    ({ id, subnetId, ip, hostname, is_gateway: '0', tag: '2', ...extra });
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    source: { instance: 'fake', baseUrl: 'fake', appId: 'mcp' },
+    sections: [
+      { id: '1', name: 'Production', description: 'Production networks' },
+      { id: '2', name: 'Lab', description: 'Lab and testing' },
+    ],
+    subnets: [
+      subnet('1', '10.10.0.0/16', { sectionId: '1', description: 'Production supernet' }),
+      subnet('2', '10.10.1.0/24', { sectionId: '1', masterSubnetId: '1', vlanId: '1', description: 'Web servers', gateway: { ip_addr: '10.10.1.1' } }),
+      subnet('3', '10.10.2.0/24', { sectionId: '1', masterSubnetId: '1', vlanId: '2', description: 'Databases' }),
+      subnet('4', '2001:db8:10::/48', { sectionId: '1', description: 'Production IPv6' }),
+      subnet('5', '2001:db8:10:1::/64', { sectionId: '1', masterSubnetId: '4', vlanId: '1', description: 'Web servers v6' }),
+      subnet('6', '192.168.50.0/24', { sectionId: '2', vrfId: '1', description: 'Lab' }),
+    ],
+    addresses: [
+      address('1', '2', '10.10.1.1', 'gw-web', { is_gateway: '1', description: 'Gateway' }),
+      address('2', '2', '10.10.1.10', 'web01.example.com', { mac: '00:50:56:aa:00:01', deviceId: '2' }),
+      address('3', '2', '10.10.1.11', 'web02.example.com', { mac: '00:50:56:aa:00:02' }),
+      address('4', '3', '10.10.2.10', 'db01.example.com'),
+      address('5', '5', '2001:db8:10:1::10', 'web01.example.com', { deviceId: '2' }),
+      address('6', '6', '192.168.50.10', 'lab01.example.com'),
+    ],
+    vlans: [
+      { id: '1', domainId: '1', name: 'web', number: '110' },
+      { id: '2', domainId: '1', name: 'db', number: '120' },
+    ],
+    vrfs: [
+      { id: '1', name: 'lab', rd: '65000:50', description: 'Lab VRF' },
+    ],
+    devices: [
+      { id: '1', hostname: 'sw-core-1', description: 'Core switch' },
+      { id: '2', hostname: 'web01.example.com', description: 'Web server' },
+    ],
+  };
+}
+
+/**
+ * phpIPAM stores and returns every scalar field as a string
+ */
+function stringify(body: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.entries(body)
+    .filter(([, v]) => v !== undefined && v !== null && typeof v !== 'object')
+    .map(([k, v]) => [k, String(v)]));
+}
+
+/**
+ * phpIPAM's "Y-m-d H:i:s" timestamps, in local time
+ */
+function phpDate(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class FakePhpIpam {
+  readonly appId: string;
+  readonly token: string;
+  readonly cryptLibrary: CryptLibrary;
+  readonly username: string;
+  readonly password: string;
+  latencyMs: number;
+
+  private readonly data: Snapshot;
+  private readonly reader: SnapshotApi;
+  private faults: FaultRule[];
+  private sessionTtl: number;
+  private sessions = new Map<string, number>();
+  private host: string;
+  private port: number;
+  private server: http.Server | null = null;
+
+  constructor(options: FakePhpIpamOptions = {}) {
+    this.host = options.host || '127.0.0.1';
+    this.port = options.port ?? 0;
+    this.appId = options.appId || 'mcp';
+    this.token = options.token || 'fake-app-code';
+    this.cryptLibrary = options.cryptLibrary || 'mcrypt';
+    this.username = options.username || 'admin';
+    this.password = options.password || 'admin';
+    this.sessionTtl = options.sessionTtl ?? 6 * 60 * 60;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.faults = [...(options.faults || [])];
+    this.data = structuredClone(options.seed || seedDataset());
+    this.reader = new SnapshotApi(this.data);
+  }
+
+  /**
+   * Listen and return the base URL to use as PHPIPAM_BASE_URL
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.reply(res, { status: 500, message: error instanceof Error ? error.message : String(error) });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  get url(): string {
+    const address = this.server?.address();
+    if (!address || typeof address === 'string') {
+      throw new PhpIpamError('Fake phpIPAM is not running', 'INTERNAL');
+    }
+    return `http://${this.host}:${address.port}`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * Current data, in snapshot format
+   */
+  snapshot(): Snapshot {
+    return structuredClone(this.data);
+  }
+
+  injectFault(rule: FaultRule): void {
+    this.faults.push({ ...rule });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Invalidate every password-auth session, as if they had all expired
+   */
+  expireSessions(): void {
+    this.sessions.clear();
+  }
+
+  // ===========================================================================
+  // Request handling
+  // ===========================================================================
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    const raw = await this.readBody(req);
+
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs);
+    }
+
+    const prefix = `/api/${this.appId}/`;
+    if (!url.pathname.startsWith(prefix)) {
+      this.reply(res, { status: 400, message: 'Invalid application id' });
+      return;
+    }
+
+    // Crypt mode carries controller, ids and body encrypted in the query string
+    let path = '/' + url.pathname.slice(prefix.length);
+    let body: Record<string, unknown> | undefined;
+    const encRequest = url.searchParams.get('enc_request');
+    if (encRequest !== null) {
+      let params: Record<string, unknown>;
+      try {
+        params = JSON.parse(decryptRequest(encRequest, this.token, this.cryptLibrary));
+      } catch {
+        this.reply(res, { status: 401, message: 'Invalid enc_request' });
+        return;
+      }
+      const { controller, id, id2, id3, ...rest } = params;
+      path = '/' + [controller, id, id2, id3]
+        .filter(p => p !== undefined && p !== null && p !== '')
+        .map(p => encodeURIComponent(String(p)))
+        .join('/') + '/';
+      body = Object.keys(rest).length > 0 ? rest : undefined;
+    } else if (raw) {
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        this.reply(res, { status: 400, message: 'Invalid JSON body' });
+        return;
+      }
+    }
+    if (!path.endsWith('/')) path += '/';
+
+    const fault = this.takeFault(method, path);
+    if (fault) {
+      if (fault.status === 0) {
+        req.socket.destroy();
+        return;
+      }
+      this.reply(res, { status: fault.status, message: fault.message || `Injected fault (${fault.status})` });
+      return;
+    }
+
+    if (path.startsWith('/user/')) {
+      this.reply(res, this.user(method, req.headers));
+      return;
+    }
+
+    if (encRequest === null && !this.authorized(req.headers)) {
+      this.reply(res, { status: 401, message: 'Invalid or expired token' });
+      return;
+    }
+
+    try {
+      this.reply(res, method === 'GET' ? this.read(path) : this.write(method, path, body || {}));
+    } catch (error) {
+      if (error instanceof PhpIpamError) {
+        this.reply(res, { status: error.statusCode || ERROR_STATUS[error.code], message: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  private reply(res: http.ServerResponse, response: FakeResponse): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const success = response.status < 400;
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      code: response.status,
+      success,
+      ...(response.message ? { message: response.message } : {}),
+      ...(response.id ? { id: response.id } : {}),
+      ...(success ? { data: response.data } : {}),
+      time: 0.001,
+    }));
+  }
+
+  private takeFault(method: string, path: string): FaultRule | undefined {
+    const index = this.faults.findIndex(f =>
+      (!f.method || f.method.toUpperCase() === method) && (!f.path || path.startsWith(f.path))
+    );
+    if (index < 0) return undefined;
+    const fault = this.faults[index];
+    if (fault.times !== undefined && --fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private authorized(headers: http.IncomingHttpHeaders): boolean {
+    const token = headers['token'] || headers['phpipam-token'];
+    if (typeof token !== 'string') return false;
+    if (token === this.token) return true;
+    const expires = this.sessions.get(token);
+    return expires !== undefined && Date.now() < expires;
+  }
+
+  /**
+   * Password-auth sessions: POST logs in, GET reports expiry, PATCH extends,
+   * DELETE logs out
+   */
+  private user(method: string, headers: http.IncomingHttpHeaders): FakeResponse {
+    if (method === 'POST') {
+      const match = /^Basic\s+(.+)$/i.exec(headers.authorization || '');
+      const [username, password] = match ? Buffer.from(match[1], 'base64').toString('utf8').split(':') : [];
+      if (username !== this.username || password !== this.password) {
+        return { status: 401, message: 'Invalid username or password' };
+      }
+      const token = crypto.randomBytes(12).toString('hex');
+      const expires = Date.now() + this.sessionTtl * 1000;
+      this.sessions.set(token, expires);
+      return { status: 200, data: { token, expires: phpDate(expires) } };
+    }
+
+    const token = headers['token'] || headers['phpipam-token'];
+    const expires = typeof token === 'string' ? this.sessions.get(token) : undefined;
+    if (typeof token !== 'string' || expires === undefined || Date.now() >= expires) {
+      return { status: 401, message: 'Invalid or expired token' };
+    }
+
+    switch (method) {
+      case 'GET':
+        return { status: 200, data: { expires: phpDate(expires) } };
+      case 'PATCH': {
+        const extended = Date.now() + this.sessionTtl * 1000;
+        this.sessions.set(token, extended);
+        return { status: 200, data: { expires: phpDate(extended) } };
+      }
+      case 'DELETE':
+        this.sessions.delete(token);
+        return { status: 200, message: 'User token removed' };
+      default:
+        return { status: 405, message: `Method ${method} not allowed` };
+    }
+  }
+
+  // ===========================================================================
+  // Controllers
+  // ===========================================================================
+
+  private segments(path: string): string[] {
+    return path.split('/').filter(p => p).map(decodeURIComponent);
+  }
+
+  private read(path: string): FakeResponse {
+    const [controller, id, sub, arg] = this.segments(path);
+
+    if (controller === 'addresses' && id === 'first_free') {
+      return { status: 200, data: this.firstFreeIp(sub) };
+    }
+    if (controller === 'subnets' && sub === 'first_free') {
+      return { status: 200, data: this.firstFreeIp(id) };
+    }
+    if (controller === 'subnets' && sub === 'first_subnet') {
+      return { status: 200, data: this.firstFreeSubnet(id, Number(arg)) };
+    }
+
+    const data = this.reader.request('GET', path);
+    // phpIPAM answers empty lists and searches with 404
+    if (Array.isArray(data) && data.length === 0) {
+      return { status: 404, message: 'No objects found' };
+    }
+    return { status: 200, data };
+  }
+
+  private write(method: string, path: string, body: Record<string, unknown>): FakeResponse {
+    const [controller, id, sub, arg] = this.segments(path);
+    const collection = COLLECTIONS[controller];
+    if (!collection) {
+      return { status: 400, message: `Invalid controller: ${controller}` };
+    }
+
+    switch (method) {
+      case 'POST':
+        if (controller === 'addresses' && id === 'first_free') {
+          return this.create('addresses', { ...body, subnetId: sub, ip: this.firstFreeIp(sub) });
+        }
+        if (controller === 'subnets' && sub === 'first_subnet') {
+          const [subnet, mask] = this.firstFreeSubnet(id, Number(arg)).split('/');
+          const parent = this.find('subnets', id);
+          const created = this.create('subnets', { sectionId: parent.sectionId, vrfId: parent.vrfId, ...body, subnet, mask, masterSubnetId: id });
+          return { ...created, data: `${subnet}/${mask}` };
+        }
+        if (id !== undefined) break;
+        return this.create(collection, body);
+
+      case 'PATCH': {
+        const target = id ?? String(body.id ?? '');
+        if (sub !== undefined || !target) break;
+        const object = this.find(collection, target);
+        const { id: _ignored, ...fields } = stringify(body);
+        this.validate(collection, { ...object, ...fields }, target);
+        Object.assign(object, fields);
+        return { status: 200, message: `${controller} updated` };
+      }
+
+      case 'DELETE':
+        if (id === undefined || sub !== undefined) break;
+        this.remove(collection, id);
+        return { status: 200, message: `${controller} deleted` };
+    }
+    return { status: 400, message: `Unsupported request: ${method} ${path}` };
+  }
+
+  private find(collection: Collection, id: string): Record<string, string> {
+    const object = (this.data[collection] as unknown as Array<Record<string, string>>).find(o => o.id === id);
+    if (!object) {
+      throw new PhpIpamError(`${collection} ${id} not found`, 'NOT_FOUND', 404);
+    }
+    return object;
+  }
+
+  private create(collection: Collection, body: Record<string, unknown>): FakeResponse {
+    const list = this.data[collection] as unknown as Array<Record<string, string>>;
+    const id = String(list.reduce((max, o) => Math.max(max, Number(o.id) || 0), 0) + 1);
+    const object = { ...stringify(body), id };
+
+    switch (collection) {
+      case 'subnets':
+        Object.assign(object, { masterSubnetId: '0', vrfId: '0', vlanId: '0', isFolder: '0', ...object });
+        break;
+      case 'addresses':
+        Object.assign(object, { is_gateway: '0', tag: '2', ...object });
+        break;
+      case 'vlans':
+        Object.assign(object, { domainId: '1', ...object });
+        break;
+    }
+
+    this.validate(collection, object);
+    list.push(object);
+    return { status: 201, message: `${collection} created`, id, data: { id } };
+  }
+
+  /**
+   * The integrity rules phpIPAM enforces on the fields the client sets
+   */
+  private validate(collection: Collection, object: Record<string, string>, id?: string): void {
+    switch (collection) {
+      case 'sections':
+        if (!object.name) throw new PhpIpamError('Section name is required', 'VALIDATION', 400);
+        if (this.data.sections.some(s => s.id !== id && s.name.toLowerCase() === object.name.toLowerCase())) {
+          throw new PhpIpamError(`Section ${object.name} already exists`, 'CONFLICT', 409);
+        }
+        break;
+
+      case 'subnets': {
+        if (!object.subnet || !object.mask || !object.sectionId) {
+          throw new PhpIpamError('subnet, mask and sectionId are required', 'VALIDATION', 400);
+        }
+        this.find('sections', object.sectionId);
+        const prefix = parseCidr(`${object.subnet}/${object.mask}`, { strict: true });
+        const cidr = formatCidr(prefix);
+        if (this.data.subnets.some(s => s.id !== id && s.sectionId === object.sectionId &&
+            (s.vrfId || '0') === (object.vrfId || '0') && canonicalCidr(`${s.subnet}/${s.mask}`) === cidr)) {
+          throw new PhpIpamError(`Subnet ${cidr} already exists`, 'CONFLICT', 409);
+        }
+        if (object.masterSubnetId && object.masterSubnetId !== '0') {
+          const parent = this.find('subnets', object.masterSubnetId);
+          if (!prefixContains(parseCidr(`${parent.subnet}/${parent.mask}`), prefix)) {
+            throw new PhpIpamError(`Subnet ${cidr} is not inside its parent ${parent.subnet}/${parent.mask}`, 'VALIDATION', 400);
+          }
+          const siblings = this.data.subnets.filter(s => s.id !== id && s.masterSubnetId === object.masterSubnetId);
+          const overlap = siblings.find(s => prefixesOverlap(parseCidr(`${s.subnet}/${s.mask}`), prefix));
+          if (overlap) {
+            throw new PhpIpamError(`Subnet ${cidr} overlaps ${overlap.subnet}/${overlap.mask}`, 'CONFLICT', 409);
+          }
+        }
+        break;
+      }
+
+      case 'addresses': {
+        if (!object.ip || !object.subnetId) {
+          throw new PhpIpamError('ip and subnetId are required', 'VALIDATION', 400);
+        }
+        const subnet = this.find('subnets', object.subnetId);
+        const ip = parseIp(object.ip);
+        if (!prefixContains(parseCidr(`${subnet.subnet}/${subnet.mask}`), ip)) {
+          throw new PhpIpamError(`IP address ${object.ip} is not in subnet ${subnet.subnet}/${subnet.mask}`, 'VALIDATION', 400);
+        }
+        object.ip = formatIp(ip);
+        if (this.data.addresses.some(a => a.id !== id && a.subnetId === object.subnetId && formatIp(parseIp(a.ip)) === object.ip)) {
+          throw new PhpIpamError(`IP address ${object.ip} already exists`, 'CONFLICT', 409);
+        }
+        break;
+      }
+
+      case 'vlans':
+        if (!object.number) throw new PhpIpamError('VLAN number is required', 'VALIDATION', 400);
+        if (this.data.vlans.some(v => v.id !== id && v.domainId === object.domainId && String(v.number) === object.number)) {
+          throw new PhpIpamError(`VLAN ${object.number} already exists in domain ${object.domainId}`, 'CONFLICT', 409);
+        }
+        break;
+
+      case 'vrfs':
+      case 'devices':
+        break;
+    }
+  }
+
+  /**
+   * Delete an object and what phpIPAM deletes with it: a section's subnets,
+   * a subnet's children and addresses
+   */
+  private remove(collection: Collection, id: string): void {
+    this.find(collection, id);
+    const list = this.data[collection] as unknown as Array<{ id: string }>;
+    list.splice(list.findIndex(o => o.id === id), 1);
+
+    switch (collection) {
+      case 'sections':
+        for (const subnet of this.data.subnets.filter(s => s.sectionId === id && (!s.masterSubnetId || s.masterSubnetId === '0'))) {
+          this.remove('subnets', subnet.id);
+        }
+        break;
+      case 'subnets':
+        for (const child of this.data.subnets.filter(s => s.masterSubnetId === id)) {
+          this.remove('subnets', child.id);
+        }
+        this.data.addresses = this.data.addresses.filter(a => a.subnetId !== id);
+        break;
+      case 'vlans':
+        this.data.subnets.filter(s => s.vlanId === id).forEach(s => { s.vlanId = '0'; });
+        break;
+      case 'vrfs':
+        this.data.subnets.filter(s => s.vrfId === id).forEach(s => { s.vrfId = '0'; });
+        break;
+      case 'devices':
+        this.data.addresses.filter(a => a.deviceId === id).forEach(a => { a.deviceId = '0'; });
+        break;
+    }
+  }
+
+  private firstFreeIp(subnetId: string): string {
+    const subnet = this.find('subnets', subnetId);
+    const used = this.data.addresses
+      .filter(a => a.subnetId === subnetId)
+      .map(a => parseIp(a.ip));
+    const free = firstFreeAddress(parseCidr(`${subnet.subnet}/${subnet.mask}`), used);
+    if (!free) {
+      throw new PhpIpamError(`No free addresses found in subnet ${subnet.subnet}/${subnet.mask}`, 'NOT_FOUND', 404);
+    }
+    return formatIp(free);
+  }
+
+  private firstFreeSubnet(parentId: string, mask: number): string {
+    const parent = this.find('subnets', parentId);
+    const prefix = parseCidr(`${parent.subnet}/${parent.mask}`);
+    const bits = prefix.version === 4 ? 32 : 128;
+    if (!Number.isInteger(mask) || mask <= prefix.prefixLength || mask > bits) {
+      throw new PhpIpamError(`Invalid mask ${mask} for subnet ${parent.subnet}/${parent.mask}`, 'VALIDATION', 400);
+    }
+
+    const used = this.data.subnets
+      .filter(s => s.masterSubnetId === parentId)
+      .map(s => prefixRange(parseCidr(`${s.subnet}/${s.mask}`)));
+    for (const range of freeRanges(prefixRange(prefix), used)) {
+      const block = rangeToPrefixes(range.version, range.start, range.end).find(b => b.prefixLength <= mask);
+      if (block) {
+        return formatCidr({ ...block, prefixLength: mask });
+      }
+    }
+    throw new PhpIpamError(`No free /${mask} subnets in ${parent.subnet}/${parent.mask}`, 'NOT_FOUND', 404);
+  }
+}
+
+async function main(): Promise<void> {
+  const env = process.env;
+  const fake = new FakePhpIpam({
+    host: env.FAKE_PHPIPAM_HOST,
+    port: env.FAKE_PHPIPAM_PORT ? Number(env.FAKE_PHPIPAM_PORT) : 8080,
+    appId: env.FAKE_PHPIPAM_APP_ID,
+    token: env.FAKE_PHPIPAM_TOKEN,
+    cryptLibrary: env.FAKE_PHPIPAM_CRYPT_LIBRARY as CryptLibrary | undefined,
+    username: env.FAKE_PHPIPAM_USERNAME,
+    password: env.FAKE_PHPIPAM_PASSWORD,
+    latencyMs: env.FAKE_PHPIPAM_LATENCY ? Number(env.FAKE_PHPIPAM_LATENCY) : 0,
+    seed: env.FAKE_PHPIPAM_SNAPSHOT ? loadSnapshot(env.FAKE_PHPIPAM_SNAPSHOT) : undefined,
+  });
+  const url = await fake.start();
+
+  console.error(`Fake phpIPAM listening on ${url}`);
+  console.error(`  PHPIPAM_BASE_URL=${url}`);
+  console.error(`  PHPIPAM_APP_ID=${fake.appId}`);
+  console.error(`  PHPIPAM_TOKEN=${fake.token} PHPIPAM_CRYPT_LIBRARY=${fake.cryptLibrary}  (crypt mode)`);
+  console.error(`  or PHPIPAM_USERNAME=${fake.username} PHPIPAM_PASSWORD=${fake.password}`);
+
+  const stop = (): void => {
+    fake.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
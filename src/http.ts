@@ -0,0 +1,182 @@
+/**
+ * Streamable HTTP transport
+ *
+ * Serves MCP over HTTP (with SSE streaming) so one shared server can sit
+ * behind a gateway. Every client session gets its own MCP server instance
+ * built by the same factory as stdio, so tools behave identically. Clients
+ * authenticate with a bearer token from PHPIPAM_HTTP_TOKENS.
+ */
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ServerConfig } from './types.js';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+export interface HttpTransportHandle {
+  /** Stop accepting requests, close every session and wait for in-flight ones */
+  close(): Promise<void>;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * JSON-RPC error response for requests rejected before reaching a session
+ */
+function sendRpcError(res: http.ServerResponse, status: number, code: number, message: string, headers?: Record<string, string>): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null }, headers);
+}
+
+/**
+ * Constant-time check of the Authorization header against the configured tokens
+ */
+function authorized(req: http.IncomingMessage, tokens: string[]): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  if (!match) return false;
+  const presented = crypto.createHash('sha256').update(match[1].trim()).digest();
+  return tokens
+    .map(token => crypto.timingSafeEqual(presented, crypto.createHash('sha256').update(token).digest()))
+    .some(ok => ok);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new RangeError(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+export async function startHttpTransport(
+  config: ServerConfig,
+  createServer: () => Server
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, Session>();
+  let closing = false;
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+
+    // Unauthenticated liveness probe for load balancers
+    if (pathname === '/healthz' && req.method === 'GET') {
+      sendJson(res, closing ? 503 : 200, { status: closing ? 'shutting_down' : 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (pathname !== config.httpPath) {
+      sendJson(res, 404, { error: 'NOT_FOUND', message: `Not found: ${pathname}` });
+      return;
+    }
+
+    if (!authorized(req, config.httpTokens)) {
+      sendRpcError(res, 401, -32001, 'Unauthorized: a valid bearer token is required', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    if (closing) {
+      sendRpcError(res, 503, -32000, 'Server is shutting down', { Connection: 'close' });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        const tooLarge = error instanceof RangeError;
+        sendRpcError(res, tooLarge ? 413 : 400, -32700, tooLarge ? error.message : 'Parse error: invalid JSON');
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId !== undefined) {
+      sendRpcError(res, 404, -32001, 'Session not found. Start a new session with an initialize request');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, -32000, 'Bad request: no session. The first request must be initialize');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => crypto.randomUUID(),
+      onsessioninitialized: id => {
+        sessions.set(id, { server, transport });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+      console.error(`HTTP request failed: ${error instanceof Error ? error.message : error}`);
+      if (!res.headersSent) {
+        sendRpcError(res, 500, -32603, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(config.httpPort, config.httpHost, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    close: async () => {
+      closing = true;
+      const stopped = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      httpServer.closeIdleConnections();
+
+      // Closing a session ends its open SSE streams so their sockets can drain
+      await Promise.allSettled([...sessions.values()].map(async ({ server, transport }) => {
+        await transport.close();
+        await server.close();
+      }));
+      sessions.clear();
+
+      let timer: NodeJS.Timeout | undefined;
+      const deadline = new Promise<void>(resolve => {
+        timer = setTimeout(() => {
+          httpServer.closeAllConnections();
+          resolve();
+        }, config.shutdownTimeout);
+      });
+      await Promise.race([stopped, deadline]);
+      clearTimeout(timer);
+    },
+  };
+}
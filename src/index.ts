@@ -11,14 +11,68 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  McpError,
+  ErrorCode,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { loadConfig, assertWriteEnabled, assertSubnetCreateEnabled, assertSectionCreateEnabled, maskConfig } from './config.js';
+import { loadInstances, loadServerConfig, maskServerConfig, assertWriteEnabled, assertSubnetCreateEnabled, assertSectionCreateEnabled, maskConfig, CACHE_ENTITIES } from './config.js';
 import { PhpIpamClient } from './client.js';
+import {
+  parseIp,
+  parseCidr,
+  canonicalIp,
+  canonicalCidr,
+  formatIp,
+  formatIpExpanded,
+  formatCidr,
+  bitLength,
+  prefixContains,
+  prefixesOverlap,
+  splitPrefix,
+  summarizePrefixes,
+  describePrefix,
+  isValidIp,
+  eui64Address,
+  parseMac,
+  formatMac,
+} from './ipmath.js';
+import { allocateBatch } from './batch.js';
+import { AuditLog, createAuditEntry } from './audit.js';
+import { startHttpTransport } from './http.js';
+import {
+  RESOURCE_TEMPLATES,
+  ResourceEvents,
+  parseResourceUri,
+  listResources,
+  readResource,
+  subscriptionKeys,
+  changeKeys,
+  changesResourceList,
+} from './resources.js';
+import { PROMPTS, getPrompt } from './prompts.js';
+import { Completer } from './completions.js';
+import { checkToolPolicy, checkScopePolicy, hasScopeRules, PolicyTarget } from './policy.js';
+import { ConfirmationTokens } from './confirm.js';
+import { ChangeHistory, planRevert, applyRevert, revertDeletes, DEFAULT_HISTORY_SIZE, DEFAULT_CHANGES_LIMIT } from './changes.js';
+import { describeFreeAddresses, describeSubnetGaps, DEFAULT_FREE_COUNT } from './planning.js';
+import { createSnapshot, writeSnapshot } from './snapshot.js';
+import { Metrics, METRICS_CONTENT_TYPE, startMetricsServer } from './metrics.js';
 import {
   PhpIpamConfig,
+  ServerConfig,
   PhpIpamError,
+  Subnet,
+  Address,
+  SearchResult,
   GetSectionInput,
   ListSubnetsInput,
   GetSubnetInput,
@@ -26,21 +80,141 @@ import {
   GetAddressInput,
   SearchInput,
   AllocateAddressInput,
+  AllocateBatchInput,
   ReleaseAddressInput,
   UpsertAddressInput,
   EnsureSubnetInput,
+  AllocateSubnetInput,
   EnsureSectionInput,
+  Vlan,
+  ListVlansInput,
+  GetVlanInput,
+  ListVlanSubnetsInput,
+  EnsureVlanInput,
+  UpdateVlanInput,
+  DeleteVlanInput,
+  Device,
+  GetDeviceInput,
+  FindDeviceByIpInput,
+  EnsureDeviceInput,
+  UpdateDeviceInput,
+  Vrf,
+  GetVrfInput,
+  EnsureVrfInput,
+  CalcInput,
+  SubnetFreeInput,
+  SubnetGapsInput,
+  AuditQueryInput,
+  AuditEntry,
+  ChangeRecord,
+  ListChangesInput,
+  RevertChangesInput,
+  ClearCacheInput,
 } from './types.js';
 
 // ============================================================================
 // Tool Definitions
 // ============================================================================
 
+/**
+ * Tools that modify phpIPAM. These accept dryRun and honour PHPIPAM_DRY_RUN.
+ */
+const WRITE_TOOLS = new Set([
+  'phpipam.addresses.allocate',
+  'phpipam.addresses.allocateBatch',
+  'phpipam.addresses.release',
+  'phpipam.addresses.upsert',
+  'phpipam.subnets.ensure',
+  'phpipam.subnets.allocate',
+  'phpipam.sections.ensure',
+  'phpipam.vlans.ensure',
+  'phpipam.vlans.update',
+  'phpipam.vlans.delete',
+  'phpipam.devices.ensure',
+  'phpipam.devices.update',
+  'phpipam.vrfs.ensure',
+  'phpipam.changes.revert',
+]);
+
+/**
+ * A configured phpIPAM instance and its client
+ */
+interface Instance {
+  config: PhpIpamConfig;
+  client: PhpIpamClient;
+  completer: Completer;
+}
+
+/**
+ * Shared state handed to tool handlers alongside the client
+ */
+interface ToolServices {
+  instances: Map<string, Instance>;
+  defaultInstance: string;
+  audit: AuditLog | null;
+  history: ChangeHistory;
+  confirmations: ConfirmationTokens;
+  resourceEvents: ResourceEvents;
+  metrics: Metrics;
+}
+
+const DRY_RUN_PROPERTY = {
+  type: 'boolean',
+  description: 'Resolve and validate, then return the requests that would be sent and the before/after diff without changing anything',
+};
+
+const INSTANCE_PROPERTY = {
+  type: 'string',
+  description: 'phpIPAM instance to use (see PHPIPAM_INSTANCES; default: the default instance)',
+};
+
+const CONFIRM_TOKEN_PROPERTY = {
+  type: 'string',
+  description: 'Token from a previous call with the same arguments (required when PHPIPAM_CONFIRM_DELETES=true)',
+};
+
 const TOOLS: Tool[] = [
   // Health Check
   {
     name: 'phpipam.health',
-    description: 'Check phpIPAM connectivity and authentication status',
+    description: 'Check phpIPAM connectivity and authentication status, and whether the circuit breaker is holding requests back',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  
+  // Cache
+  {
+    name: 'phpipam.cache.stats',
+    description: 'Show response cache settings, size per entity, and hit, miss and eviction counts',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.cache.clear',
+    description: 'Drop cached phpIPAM responses so the next reads fetch current data. Does not change phpIPAM',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entity: {
+          type: 'string',
+          enum: CACHE_ENTITIES,
+          description: 'Only drop responses of this kind (default: everything)',
+        },
+      },
+      required: [],
+    },
+  },
+  
+  // Metrics
+  {
+    name: 'phpipam.metrics',
+    description: 'Show server metrics in Prometheus text format: tool calls by outcome, phpIPAM API latency, retries, cache hits and session refreshes',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -48,6 +222,29 @@ const TOOLS: Tool[] = [
     },
   },
   
+  // IP Calculator (Offline)
+  {
+    name: 'phpipam.calc',
+    description: 'Offline IPv4/IPv6 calculator: prefix info, containment, overlap, splitting, summarization, normalization and EUI-64 derivation. Does not contact phpIPAM',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        operation: {
+          type: 'string',
+          enum: ['info', 'contains', 'overlap', 'split', 'summarize', 'normalize', 'eui64'],
+          description: 'Calculation to perform',
+        },
+        cidr: { type: 'string', description: 'Prefix in CIDR notation (info, contains, overlap, split, eui64)' },
+        other: { type: 'string', description: 'IP or CIDR to compare against cidr (contains, overlap)' },
+        prefixLength: { type: 'number', description: 'Target prefix length (split)' },
+        cidrs: { type: 'array', items: { type: 'string' }, description: 'Prefixes to summarize (summarize)' },
+        value: { type: 'string', description: 'IP or CIDR to normalize (normalize)' },
+        mac: { type: 'string', description: 'MAC address to derive the SLAAC address from (eui64)' },
+      },
+      required: ['operation'],
+    },
+  },
+  
   // Sections (Read)
   {
     name: 'phpipam.sections.list',
@@ -91,6 +288,36 @@ const TOOLS: Tool[] = [
       properties: {
         id: { type: 'string', description: 'Subnet ID' },
         cidr: { type: 'string', description: 'CIDR notation (e.g., 192.168.1.0/24)' },
+        vrf: { type: 'string', description: 'VRF ID or name (disambiguates overlapping CIDRs)' },
+      },
+      required: [],
+    },
+  },
+  
+  {
+    name: 'phpipam.subnets.free',
+    description: 'Report free address ranges and the next free IPs in a subnet (network, broadcast and gateway are excluded). Read-only',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Subnet ID' },
+        cidr: { type: 'string', description: 'CIDR notation (alternative to ID)' },
+        vrf: { type: 'string', description: 'VRF ID or name (disambiguates overlapping CIDRs)' },
+        count: { type: 'number', description: 'Number of next free IPs to return (default: 10, max: 1000)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.subnets.gaps',
+    description: 'Report unallocated space between child subnets of a parent block, as CIDR blocks. Read-only',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Parent subnet ID' },
+        cidr: { type: 'string', description: 'Parent subnet in CIDR notation (alternative to ID)' },
+        vrf: { type: 'string', description: 'VRF ID or name (disambiguates overlapping CIDRs)' },
+        mask: { type: 'number', description: 'Only report gaps that fit a child of this prefix length, and count how many fit' },
       },
       required: [],
     },
@@ -116,6 +343,7 @@ const TOOLS: Tool[] = [
       properties: {
         id: { type: 'string', description: 'Address ID' },
         ip: { type: 'string', description: 'IP address' },
+        vrf: { type: 'string', description: 'VRF ID or name (disambiguates overlapping addresses)' },
       },
       required: [],
     },
@@ -139,10 +367,27 @@ const TOOLS: Tool[] = [
     },
   },
   
+  {
+    name: 'phpipam.search.federated',
+    description: 'Run the same search on every configured phpIPAM instance at once. Results are grouped per instance; an unreachable instance is reported without failing the others',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query (IP, hostname, etc.)' },
+        type: {
+          type: 'string',
+          enum: ['ip', 'hostname', 'mac', 'all'],
+          description: 'Type of search (default: all)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  
   // Addresses (Write) - Guarded by PHPIPAM_WRITE_ENABLED
   {
     name: 'phpipam.addresses.allocate',
-    description: 'Allocate the first available IP address in a subnet. Requires PHPIPAM_WRITE_ENABLED=true',
+    description: 'Allocate the first available IP address in a subnet, or the SLAAC address for a MAC in an IPv6 subnet. Requires PHPIPAM_WRITE_ENABLED=true',
     inputSchema: {
       type: 'object',
       properties: {
@@ -152,18 +397,50 @@ const TOOLS: Tool[] = [
         mac: { type: 'string', description: 'MAC address' },
         owner: { type: 'string', description: 'Owner/responsible person' },
         note: { type: 'string', description: 'Additional notes' },
+        slaac: { type: 'boolean', description: 'IPv6 only: assign the SLAAC (EUI-64) address derived from mac instead of the first free address' },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ['subnetId'],
     },
   },
+  {
+    name: 'phpipam.addresses.allocateBatch',
+    description: 'Allocate first free IPs for many hosts in one call, in one subnet or across several. All-or-nothing: if any item fails, addresses already created by the batch are deleted. Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        subnetId: { type: 'string', description: 'Default subnet ID for items that do not set their own' },
+        items: {
+          type: 'array',
+          description: 'Hosts to allocate (max 256)',
+          items: {
+            type: 'object',
+            properties: {
+              subnetId: { type: 'string', description: 'Subnet ID for this item (overrides the batch default)' },
+              hostname: { type: 'string', description: 'Hostname' },
+              description: { type: 'string', description: 'Description' },
+              mac: { type: 'string', description: 'MAC address' },
+              owner: { type: 'string', description: 'Owner' },
+              note: { type: 'string', description: 'Notes' },
+            },
+          },
+        },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['items'],
+    },
+  },
   {
     name: 'phpipam.addresses.release',
-    description: 'Release (delete) an IP address. Requires PHPIPAM_WRITE_ENABLED=true',
+    description: 'Release (delete) an IP address. With PHPIPAM_CONFIRM_DELETES=true, the first call returns what would be deleted and a confirmToken to pass on a second call. Requires PHPIPAM_WRITE_ENABLED=true',
     inputSchema: {
       type: 'object',
       properties: {
         id: { type: 'string', description: 'Address ID' },
         ip: { type: 'string', description: 'IP address (alternative to ID)' },
+        vrf: { type: 'string', description: 'VRF ID or name (disambiguates overlapping addresses)' },
+        confirmToken: CONFIRM_TOKEN_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: [],
     },
@@ -181,6 +458,7 @@ const TOOLS: Tool[] = [
         mac: { type: 'string', description: 'MAC address' },
         owner: { type: 'string', description: 'Owner' },
         note: { type: 'string', description: 'Notes' },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ['ip', 'subnetId'],
     },
@@ -198,10 +476,29 @@ const TOOLS: Tool[] = [
         description: { type: 'string', description: 'Subnet description' },
         vlanId: { type: 'string', description: 'VLAN ID' },
         masterSubnetId: { type: 'string', description: 'Parent subnet ID (for nested subnets)' },
+        vrf: { type: 'string', description: 'VRF ID or name to create the subnet in' },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ['cidr', 'sectionId'],
     },
   },
+  {
+    name: 'phpipam.subnets.allocate',
+    description: 'Create the first free child subnet of a given prefix length inside a parent subnet. Requires PHPIPAM_WRITE_ENABLED=true and PHPIPAM_ALLOW_SUBNET_CREATE=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        parentId: { type: 'string', description: 'Parent subnet ID' },
+        parentCidr: { type: 'string', description: 'Parent subnet in CIDR notation (alternative to parentId)' },
+        vrf: { type: 'string', description: 'VRF ID or name used to resolve parentCidr' },
+        mask: { type: 'number', description: 'Prefix length of the child subnet (e.g., 27)' },
+        description: { type: 'string', description: 'Subnet description' },
+        vlanId: { type: 'string', description: 'VLAN ID' },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['mask'],
+    },
+  },
   
   // Section Creation - Guarded by PHPIPAM_ALLOW_SECTION_CREATE
   {
@@ -213,179 +510,996 @@ const TOOLS: Tool[] = [
         name: { type: 'string', description: 'Section name' },
         description: { type: 'string', description: 'Section description' },
         masterSection: { type: 'string', description: 'Parent section ID' },
+        dryRun: DRY_RUN_PROPERTY,
       },
       required: ['name'],
     },
   },
-];
-
-// ============================================================================
-// Tool Handlers
-// ============================================================================
-
-async function handleTool(
-  name: string,
-  args: Record<string, unknown>,
-  client: PhpIpamClient,
-  config: PhpIpamConfig
-): Promise<unknown> {
-  switch (name) {
-    // Health
-    case 'phpipam.health':
-      return client.health();
-    
-    // Sections (Read)
-    case 'phpipam.sections.list':
-      return client.listSections();
-    
-    case 'phpipam.sections.get': {
-      const input = args as unknown as GetSectionInput;
-      if (input.id) {
-        return client.getSection(input.id);
-      }
-      if (input.name) {
-        const section = await client.getSectionByName(input.name);
-        if (!section) {
-          throw new PhpIpamError(`Section not found: ${input.name}`, 'NOT_FOUND');
-        }
-        return section;
-      }
-      throw new PhpIpamError('Either id or name is required', 'VALIDATION');
-    }
-    
-    // Subnets (Read)
-    case 'phpipam.subnets.list': {
-      const input = args as unknown as ListSubnetsInput;
-      if (!input.sectionId) {
-        throw new PhpIpamError('sectionId is required', 'VALIDATION');
-      }
-      return client.listSubnets(input.sectionId);
-    }
-    
-    case 'phpipam.subnets.get': {
-      const input = args as unknown as GetSubnetInput;
-      if (input.id) {
-        return client.getSubnet(input.id);
-      }
-      if (input.cidr) {
-        const subnet = await client.getSubnetByCidr(input.cidr);
-        if (!subnet) {
-          throw new PhpIpamError(`Subnet not found: ${input.cidr}`, 'NOT_FOUND');
-        }
-        return subnet;
-      }
-      throw new PhpIpamError('Either id or cidr is required', 'VALIDATION');
-    }
-    
-    // Addresses (Read)
-    case 'phpipam.addresses.list': {
-      const input = args as unknown as ListAddressesInput;
-      if (!input.subnetId) {
-        throw new PhpIpamError('subnetId is required', 'VALIDATION');
-      }
-      return client.listAddresses(input.subnetId);
-    }
-    
-    case 'phpipam.addresses.get': {
-      const input = args as unknown as GetAddressInput;
-      if (input.id) {
-        return client.getAddress(input.id);
-      }
-      if (input.ip) {
-        const address = await client.getAddressByIp(input.ip);
-        if (!address) {
-          throw new PhpIpamError(`Address not found: ${input.ip}`, 'NOT_FOUND');
-        }
-        return address;
-      }
-      throw new PhpIpamError('Either id or ip is required', 'VALIDATION');
-    }
-    
-    // Search
-    case 'phpipam.search': {
-      const input = args as unknown as SearchInput;
-      if (!input.query) {
-        throw new PhpIpamError('query is required', 'VALIDATION');
-      }
-      if (input.type === 'hostname') {
-        const addresses = await client.searchByHostname(input.query);
-        return { addresses };
-      }
-      return client.search(input.query);
-    }
-    
-    // Addresses (Write)
-    case 'phpipam.addresses.allocate': {
-      assertWriteEnabled(config, 'addresses.allocate');
-      const input = args as unknown as AllocateAddressInput;
-      if (!input.subnetId) {
-        throw new PhpIpamError('subnetId is required', 'VALIDATION');
-      }
-      return client.allocateFirstFree(input.subnetId, {
-        hostname: input.hostname,
-        description: input.description,
-        mac: input.mac,
-        owner: input.owner,
-        note: input.note,
-      });
-    }
-    
-    case 'phpipam.addresses.release': {
-      assertWriteEnabled(config, 'addresses.release');
-      const input = args as unknown as ReleaseAddressInput;
-      
-      let addressId = input.id;
-      if (!addressId && input.ip) {
-        const address = await client.getAddressByIp(input.ip);
-        if (!address) {
-          throw new PhpIpamError(`Address not found: ${input.ip}`, 'NOT_FOUND');
-        }
-        addressId = address.id;
-      }
-      
-      if (!addressId) {
-        throw new PhpIpamError('Either id or ip is required', 'VALIDATION');
-      }
-      
-      await client.deleteAddress(addressId);
-      return { success: true, message: `Address ${addressId} released` };
-    }
-    
-    case 'phpipam.addresses.upsert': {
-      assertWriteEnabled(config, 'addresses.upsert');
-      const input = args as unknown as UpsertAddressInput;
-      
-      if (!input.ip || !input.subnetId) {
-        throw new PhpIpamError('ip and subnetId are required', 'VALIDATION');
-      }
-      
-      // Check if address already exists
-      const existing = await client.getAddressByIp(input.ip);
-      
-      if (existing) {
-        // Update existing address
-        return client.updateAddress(existing.id, {
-          hostname: input.hostname,
-          description: input.description,
-          mac: input.mac,
-          owner: input.owner,
-          note: input.note,
-        });
-      } else {
-        // Create new address
-        return client.createAddress({
-          ip: input.ip,
-          subnetId: input.subnetId,
-          hostname: input.hostname,
-          description: input.description,
-          mac: input.mac,
-          owner: input.owner,
-          note: input.note,
-        });
-      }
-    }
-    
-    // Subnet Creation
+  
+  // VLANs (Read)
+  {
+    name: 'phpipam.vlans.list',
+    description: 'List VLANs, optionally limited to one L2 domain',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        domainId: { type: 'string', description: 'L2 domain ID (default: all domains)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.vlans.get',
+    description: 'Get a VLAN by ID, or by VLAN number within an L2 domain',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'VLAN ID' },
+        number: { type: 'string', description: 'VLAN number (alternative to ID)' },
+        domainId: { type: 'string', description: 'L2 domain ID to disambiguate the VLAN number' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.vlans.subnets',
+    description: 'List subnets attached to a VLAN',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'VLAN ID' },
+        number: { type: 'string', description: 'VLAN number (alternative to ID)' },
+        domainId: { type: 'string', description: 'L2 domain ID to disambiguate the VLAN number' },
+        sectionId: { type: 'string', description: 'Only return subnets in this section' },
+      },
+      required: [],
+    },
+  },
+  
+  // VLANs (Write) - Guarded by PHPIPAM_WRITE_ENABLED
+  {
+    name: 'phpipam.vlans.ensure',
+    description: 'Ensure a VLAN exists in an L2 domain (create if missing). Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        number: { type: 'string', description: 'VLAN number (1-4094)' },
+        name: { type: 'string', description: 'VLAN name' },
+        domainId: { type: 'string', description: 'L2 domain ID (default: 1)' },
+        description: { type: 'string', description: 'VLAN description' },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['number', 'name'],
+    },
+  },
+  {
+    name: 'phpipam.vlans.update',
+    description: 'Update a VLAN. Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'VLAN ID' },
+        number: { type: 'string', description: 'New VLAN number' },
+        name: { type: 'string', description: 'New VLAN name' },
+        description: { type: 'string', description: 'New description' },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'phpipam.vlans.delete',
+    description: 'Delete a VLAN. With PHPIPAM_CONFIRM_DELETES=true, the first call returns what would be deleted and a confirmToken to pass on a second call. Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'VLAN ID' },
+        number: { type: 'string', description: 'VLAN number (alternative to ID)' },
+        domainId: { type: 'string', description: 'L2 domain ID to disambiguate the VLAN number' },
+        confirmToken: CONFIRM_TOKEN_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: [],
+    },
+  },
+  
+  // Devices (Read)
+  {
+    name: 'phpipam.devices.list',
+    description: 'List all devices (switches, routers, hypervisors, ...) in phpIPAM',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.devices.get',
+    description: 'Get a device by ID or hostname',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Device ID' },
+        hostname: { type: 'string', description: 'Device hostname (alternative to ID)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.devices.addresses',
+    description: 'List all IP addresses attached to a device',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Device ID' },
+        hostname: { type: 'string', description: 'Device hostname (alternative to ID)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.devices.findByIp',
+    description: 'Find the device that owns an IP address',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ip: { type: 'string', description: 'IP address' },
+        vrf: { type: 'string', description: 'VRF ID or name (disambiguates overlapping addresses)' },
+      },
+      required: ['ip'],
+    },
+  },
+  
+  // Devices (Write) - Guarded by PHPIPAM_WRITE_ENABLED
+  {
+    name: 'phpipam.devices.ensure',
+    description: 'Ensure a device exists (create if missing). Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        hostname: { type: 'string', description: 'Device hostname' },
+        ip_addr: { type: 'string', description: 'Management IP address' },
+        description: { type: 'string', description: 'Device description' },
+        type: { type: 'string', description: 'Device type ID' },
+        location: { type: 'string', description: 'Location ID' },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['hostname'],
+    },
+  },
+  {
+    name: 'phpipam.devices.update',
+    description: 'Update a device. Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Device ID' },
+        hostname: { type: 'string', description: 'New hostname' },
+        ip_addr: { type: 'string', description: 'New management IP address' },
+        description: { type: 'string', description: 'New description' },
+        type: { type: 'string', description: 'New device type ID' },
+        location: { type: 'string', description: 'New location ID' },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['id'],
+    },
+  },
+  
+  // VRFs (Read)
+  {
+    name: 'phpipam.vrfs.list',
+    description: 'List all VRFs',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.vrfs.get',
+    description: 'Get a VRF by ID or name',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'VRF ID' },
+        name: { type: 'string', description: 'VRF name (alternative to ID)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.vrfs.subnets',
+    description: 'List subnets belonging to a VRF',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'VRF ID' },
+        name: { type: 'string', description: 'VRF name (alternative to ID)' },
+      },
+      required: [],
+    },
+  },
+  
+  // VRFs (Write) - Guarded by PHPIPAM_WRITE_ENABLED
+  {
+    name: 'phpipam.vrfs.ensure',
+    description: 'Ensure a VRF exists (create if missing). Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'VRF name' },
+        rd: { type: 'string', description: 'Route distinguisher (e.g., 65000:100)' },
+        description: { type: 'string', description: 'VRF description' },
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['name'],
+    },
+  },
+  
+  // Audit
+  {
+    name: 'phpipam.audit.query',
+    description: 'Query the audit journal of write tool calls (requires PHPIPAM_AUDIT_LOG). Returns newest entries first. With instance, only calls made on that instance',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: { type: 'string', description: 'Only entries at or after this ISO 8601 time' },
+        until: { type: 'string', description: 'Only entries at or before this ISO 8601 time' },
+        tool: { type: 'string', description: 'Tool name (e.g., phpipam.addresses.release)' },
+        outcome: { type: 'string', enum: ['success', 'error'], description: 'Only successful or failed calls' },
+        objectType: { type: 'string', enum: ['address', 'subnet', 'section', 'vlan', 'vrf', 'device'], description: 'Type of object touched' },
+        objectId: { type: 'string', description: 'ID of object touched' },
+        ip: { type: 'string', description: 'IP address touched' },
+        limit: { type: 'number', description: 'Maximum entries to return (default: 100, max: 1000)' },
+      },
+      required: [],
+    },
+  },
+  
+  // Change History
+  {
+    name: 'phpipam.changes.list',
+    description: 'List recent change sets made by write tools since startup, newest first. Each has a changeId usable with phpipam.changes.revert',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Maximum change sets to return (default: 20, max: 500)' },
+      },
+      required: [],
+    },
+  },
+  {
+    name: 'phpipam.changes.revert',
+    description: 'Undo a change set by its changeId: re-create deleted objects, restore updated fields, delete created objects. Refuses if any object changed since, unless force=true. With PHPIPAM_CONFIRM_DELETES=true, a revert that deletes objects first returns them and a confirmToken to pass on a second call. Requires PHPIPAM_WRITE_ENABLED=true',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        changeId: { type: 'string', description: 'changeId returned by a write tool (or an audit entry id)' },
+        force: { type: 'boolean', description: 'Revert even if objects were modified after the change (default: false)' },
+        confirmToken: CONFIRM_TOKEN_PROPERTY,
+        dryRun: DRY_RUN_PROPERTY,
+      },
+      required: ['changeId'],
+    },
+  },
+  
+  // Snapshots
+  {
+    name: 'phpipam.snapshot.create',
+    description: 'Export all sections, subnets, addresses, VLANs, VRFs and devices to the snapshot file set by PHPIPAM_SNAPSHOT_PATH, for use with PHPIPAM_OFFLINE_SNAPSHOT',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+];
+
+const TOOL_NAMES = new Set(TOOLS.map(tool => tool.name));
+
+/**
+ * Add the instance argument to every tool that runs against one instance
+ */
+function withInstanceArgument(tools: Tool[], instances: string[]): Tool[] {
+  return tools.map(tool => tool.name === 'phpipam.search.federated' ? tool : {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, instance: { ...INSTANCE_PROPERTY, enum: instances } },
+    },
+  });
+}
+
+// ============================================================================
+// Tool Handlers
+// ============================================================================
+
+/**
+ * Resolve a VLAN from an ID or a number (optionally scoped to an L2 domain)
+ */
+async function resolveVlan(client: PhpIpamClient, input: GetVlanInput): Promise<Vlan> {
+  if (input.id) {
+    return client.getVlan(input.id);
+  }
+  if (input.number) {
+    const vlan = await client.getVlanByNumber(input.number, input.domainId);
+    if (!vlan) {
+      const scope = input.domainId ? ` in L2 domain ${input.domainId}` : '';
+      throw new PhpIpamError(`VLAN not found: ${input.number}${scope}`, 'NOT_FOUND');
+    }
+    return vlan;
+  }
+  throw new PhpIpamError('Either id or number is required', 'VALIDATION');
+}
+
+/**
+ * Resolve a device from an ID or hostname
+ */
+async function resolveDevice(client: PhpIpamClient, input: GetDeviceInput): Promise<Device> {
+  if (input.id) {
+    return client.getDevice(input.id);
+  }
+  if (input.hostname) {
+    const device = await client.getDeviceByHostname(input.hostname);
+    if (!device) {
+      throw new PhpIpamError(`Device not found: ${input.hostname}`, 'NOT_FOUND');
+    }
+    return device;
+  }
+  throw new PhpIpamError('Either id or hostname is required', 'VALIDATION');
+}
+
+/**
+ * Resolve a subnet from an ID or CIDR (optionally scoped to a VRF)
+ */
+async function resolveSubnet(client: PhpIpamClient, input: GetSubnetInput): Promise<Subnet> {
+  if (input.id) {
+    return client.getSubnet(input.id);
+  }
+  if (input.cidr) {
+    const cidr = canonicalCidr(input.cidr, { strict: true });
+    const vrfId = await resolveVrfId(client, input.vrf);
+    const subnet = await client.getSubnetByCidr(cidr, vrfId);
+    if (!subnet) {
+      throw new PhpIpamError(`Subnet not found: ${input.cidr}`, 'NOT_FOUND');
+    }
+    return subnet;
+  }
+  throw new PhpIpamError('Either id or cidr is required', 'VALIDATION');
+}
+
+/**
+ * Resolve a VRF from an ID or name
+ */
+async function resolveVrf(client: PhpIpamClient, input: GetVrfInput): Promise<Vrf> {
+  if (input.id) {
+    return client.getVrf(input.id);
+  }
+  if (input.name) {
+    const vrf = await client.getVrfByName(input.name);
+    if (!vrf) {
+      throw new PhpIpamError(`VRF not found: ${input.name}`, 'NOT_FOUND');
+    }
+    return vrf;
+  }
+  throw new PhpIpamError('Either id or name is required', 'VALIDATION');
+}
+
+/**
+ * Resolve a `vrf` tool argument (ID or name) to a VRF ID.
+ * "0" and "global" refer to the global routing table.
+ */
+async function resolveVrfId(client: PhpIpamClient, vrf: string | undefined): Promise<string | undefined> {
+  if (vrf === undefined || vrf === '') {
+    return undefined;
+  }
+  if (vrf === '0' || vrf.toLowerCase() === 'global') {
+    return '0';
+  }
+  const resolved = /^\d+$/.test(vrf)
+    ? await resolveVrf(client, { id: vrf })
+    : await resolveVrf(client, { name: vrf });
+  return resolved.id;
+}
+
+/**
+ * The address an upsert into subnetId updates: the same IP in that subnet's
+ * VRF, so an overlapping address in another VRF is left alone
+ */
+async function findUpsertTarget(client: PhpIpamClient, ip: string, subnetId: string): Promise<Address | null> {
+  const subnet = await client.getSubnet(subnetId);
+  return client.getAddressByIp(ip, subnet.vrfId || '0');
+}
+
+/**
+ * IDs of the subnets above a subnet, starting from its parent. Stops at a
+ * parent that no longer exists.
+ */
+async function subnetAncestors(client: PhpIpamClient, parentId: string | undefined): Promise<string[]> {
+  const ancestors: string[] = [];
+  let id = parentId;
+  while (id && id !== '0' && !ancestors.includes(id)) {
+    ancestors.push(id);
+    try {
+      id = (await client.getSubnet(id)).masterSubnetId;
+    } catch (error) {
+      if (!(error instanceof PhpIpamError) || error.code !== 'NOT_FOUND') throw error;
+      break;
+    }
+  }
+  return ancestors;
+}
+
+/**
+ * Policy target for a subnet, or for an address in it when ip is given
+ */
+async function subnetTarget(client: PhpIpamClient, subnetId: string, ip?: string): Promise<PolicyTarget> {
+  const subnet = await client.getSubnet(subnetId);
+  return {
+    label: ip ? `address ${ip} in subnet ${subnet.subnet}/${subnet.mask}` : `subnet ${subnet.subnet}/${subnet.mask}`,
+    sectionId: subnet.sectionId,
+    subnetId: subnet.id,
+    ancestorIds: await subnetAncestors(client, subnet.masterSubnetId),
+    cidr: ip || `${subnet.subnet}/${subnet.mask}`,
+  };
+}
+
+/**
+ * Policy targets of a recorded change, taken from its snapshots. Objects
+ * outside any section are checked against the tool that changed them.
+ */
+async function changeTarget(client: PhpIpamClient, change: ChangeRecord, tool: string): Promise<PolicyTarget> {
+  const controller = change.path.split('/').filter(p => p)[0];
+  const snapshot = (change.before || change.after || {}) as Record<string, string | undefined>;
+  switch (controller) {
+    case 'addresses':
+      if (!snapshot.subnetId) return { label: `address ${snapshot.ip ?? snapshot.id}`, cidr: snapshot.ip };
+      try {
+        return await subnetTarget(client, snapshot.subnetId, snapshot.ip);
+      } catch (error) {
+        if (!(error instanceof PhpIpamError) || error.code !== 'NOT_FOUND') throw error;
+        return { label: `address ${snapshot.ip}`, subnetId: snapshot.subnetId, cidr: snapshot.ip };
+      }
+    case 'subnets':
+      return {
+        label: `subnet ${snapshot.subnet}/${snapshot.mask}`,
+        sectionId: snapshot.sectionId,
+        subnetId: snapshot.id,
+        ancestorIds: await subnetAncestors(client, snapshot.masterSubnetId),
+        cidr: snapshot.subnet ? `${snapshot.subnet}/${snapshot.mask}` : undefined,
+      };
+    case 'sections':
+      return { label: `section ${snapshot.name}`, sectionId: snapshot.id, sectionName: snapshot.name };
+    default:
+      return { label: `${controller} ${snapshot.id}`, tool };
+  }
+}
+
+/** What the VLAN, device and VRF tools act on, for policy messages */
+const UNSCOPED_KINDS: Record<string, string> = { vlans: 'VLAN', devices: 'device', vrfs: 'VRF' };
+
+/**
+ * Objects a write tool call will touch, resolved with read-only lookups.
+ * VLAN, device and VRF tools have no section or subnet scope; their targets
+ * name the tool instead. An empty list means the targets could not be resolved.
+ */
+async function policyTargets(
+  name: string,
+  args: Record<string, unknown>,
+  client: PhpIpamClient,
+  services: ToolServices
+): Promise<PolicyTarget[]> {
+  switch (name) {
+    case 'phpipam.addresses.allocate': {
+      const input = args as unknown as AllocateAddressInput;
+      return input.subnetId ? [await subnetTarget(client, input.subnetId)] : [];
+    }
+    
+    case 'phpipam.addresses.allocateBatch': {
+      const input = args as unknown as AllocateBatchInput;
+      const subnetIds = new Set((input.items || []).map(item => item.subnetId || input.subnetId).filter(id => id));
+      return Promise.all([...subnetIds].map(id => subnetTarget(client, id!)));
+    }
+    
+    case 'phpipam.addresses.release': {
+      const input = args as unknown as ReleaseAddressInput;
+      const address = input.id
+        ? await client.getAddress(input.id)
+        : input.ip ? await client.getAddressByIp(canonicalIp(input.ip), await resolveVrfId(client, input.vrf)) : null;
+      return address ? [await subnetTarget(client, address.subnetId, address.ip)] : [];
+    }
+    
+    case 'phpipam.addresses.upsert': {
+      const input = args as unknown as UpsertAddressInput;
+      if (!input.ip || !input.subnetId) return [];
+      const ip = canonicalIp(input.ip);
+      const targets = [await subnetTarget(client, input.subnetId, ip)];
+      const existing = await findUpsertTarget(client, ip, input.subnetId);
+      if (existing && existing.subnetId !== input.subnetId) {
+        targets.push(await subnetTarget(client, existing.subnetId, ip));
+      }
+      return targets;
+    }
+    
+    case 'phpipam.subnets.ensure': {
+      const input = args as unknown as EnsureSubnetInput;
+      if (!input.cidr) return [];
+      return [{
+        label: `subnet ${input.cidr}`,
+        sectionId: input.sectionId,
+        ancestorIds: await subnetAncestors(client, input.masterSubnetId),
+        cidr: input.cidr,
+      }];
+    }
+    
+    case 'phpipam.subnets.allocate': {
+      const input = args as unknown as AllocateSubnetInput;
+      if (input.parentId) {
+        return [await subnetTarget(client, input.parentId)];
+      }
+      if (input.parentCidr) {
+        const parent = await client.getSubnetByCidr(
+          canonicalCidr(input.parentCidr, { strict: true }),
+          await resolveVrfId(client, input.vrf)
+        );
+        return parent ? [await subnetTarget(client, parent.id)] : [];
+      }
+      return [];
+    }
+    
+    case 'phpipam.sections.ensure': {
+      const input = args as unknown as EnsureSectionInput;
+      return input.name ? [{ label: `section ${input.name}`, sectionName: input.name }] : [];
+    }
+    
+    case 'phpipam.changes.revert': {
+      const input = args as unknown as RevertChangesInput;
+      const entry = input.changeId
+        ? services.history.get(input.changeId) || (services.audit ? await services.audit.find(input.changeId) : null)
+        : null;
+      if (!entry) return [];
+      return Promise.all(entry.changes.filter(c => !c.dryRun).map(change => changeTarget(client, change, entry.tool)));
+    }
+    
+    case 'phpipam.vlans.ensure':
+    case 'phpipam.vlans.update':
+    case 'phpipam.vlans.delete':
+    case 'phpipam.devices.ensure':
+    case 'phpipam.devices.update':
+    case 'phpipam.vrfs.ensure': {
+      const kind = UNSCOPED_KINDS[name.split('.')[1]];
+      const ref = args.id ?? args.number ?? args.hostname ?? args.name;
+      return [{ label: ref !== undefined ? `${kind} ${ref}` : `${kind}s`, tool: name }];
+    }
+    
+    default:
+      return [];
+  }
+}
+
+/**
+ * Number of writes a tool call asks for, for the per-call cap
+ */
+async function policyOperations(name: string, args: Record<string, unknown>, services: ToolServices): Promise<number> {
+  if (name === 'phpipam.addresses.allocateBatch') {
+    const items = (args as unknown as AllocateBatchInput).items;
+    return Array.isArray(items) ? items.length : 0;
+  }
+  if (name === 'phpipam.changes.revert') {
+    const { changeId } = args as unknown as RevertChangesInput;
+    const entry = changeId
+      ? services.history.get(changeId) || (services.audit ? await services.audit.find(changeId) : null)
+      : null;
+    return entry ? entry.changes.length : 1;
+  }
+  return 1;
+}
+
+/**
+ * Apply the scoped write policy to a write tool call before it runs
+ */
+async function enforcePolicy(
+  name: string,
+  args: Record<string, unknown>,
+  client: PhpIpamClient,
+  config: PhpIpamConfig,
+  services: ToolServices
+): Promise<void> {
+  const { policy } = config;
+  checkToolPolicy(policy, name, await policyOperations(name, args, services));
+  
+  if (!hasScopeRules(policy)) return;
+  
+  const targets = await policyTargets(name, args, client, services);
+  const sectionIds = new Set<string>();
+  for (const section of policy.sections.filter(s => !/^\d+$/.test(s))) {
+    const found = await client.getSectionByName(section);
+    if (found) sectionIds.add(found.id);
+  }
+  checkScopePolicy(policy, targets, sectionIds);
+}
+
+function isDryRun(config: PhpIpamConfig, args: Record<string, unknown>): boolean {
+  return config.dryRun || args.dryRun === true;
+}
+
+/**
+ * Deletes need a confirmation token unless they are only being planned
+ */
+function needsConfirmation(config: PhpIpamConfig, args: Record<string, unknown>): boolean {
+  return config.confirmDeletes && !isDryRun(config, args);
+}
+
+/**
+ * Search one instance for the phpipam.search tools
+ */
+async function search(client: PhpIpamClient, input: SearchInput): Promise<Partial<SearchResult>> {
+  if (input.type === 'hostname') {
+    const addresses = await client.searchByHostname(input.query);
+    return { addresses };
+  }
+  if (input.type === 'ip') {
+    return client.search(canonicalIp(input.query));
+  }
+  // Canonicalize IPs so compressed and expanded IPv6 forms find the same record
+  return client.search(isValidIp(input.query) ? canonicalIp(input.query) : input.query);
+}
+
+/**
+ * Run an offline IP calculation for the phpipam.calc tool
+ */
+function calculate(input: CalcInput): unknown {
+  const requireCidr = (): string => {
+    if (!input.cidr) {
+      throw new PhpIpamError(`cidr is required for ${input.operation}`, 'VALIDATION');
+    }
+    return input.cidr;
+  };
+  const parseOther = () => {
+    if (!input.other) {
+      throw new PhpIpamError(`other is required for ${input.operation}`, 'VALIDATION');
+    }
+    return input.other.includes('/') ? parseCidr(input.other) : parseIp(input.other);
+  };
+  
+  switch (input.operation) {
+    case 'info':
+      return describePrefix(parseCidr(requireCidr()));
+    
+    case 'contains': {
+      const prefix = parseCidr(requireCidr());
+      return { cidr: formatCidr(prefix), other: input.other, contains: prefixContains(prefix, parseOther()) };
+    }
+    
+    case 'overlap': {
+      const prefix = parseCidr(requireCidr());
+      const other = parseOther();
+      const otherPrefix = 'value' in other
+        ? { version: other.version, network: other.value, prefixLength: bitLength(other.version) }
+        : other;
+      return { cidr: formatCidr(prefix), other: input.other, overlap: prefixesOverlap(prefix, otherPrefix) };
+    }
+    
+    case 'split': {
+      const prefix = parseCidr(requireCidr());
+      if (input.prefixLength === undefined) {
+        throw new PhpIpamError('prefixLength is required for split', 'VALIDATION');
+      }
+      const subnets = splitPrefix(prefix, Number(input.prefixLength)).map(formatCidr);
+      return { cidr: formatCidr(prefix), prefixLength: Number(input.prefixLength), count: subnets.length, subnets };
+    }
+    
+    case 'summarize': {
+      if (!Array.isArray(input.cidrs) || input.cidrs.length === 0) {
+        throw new PhpIpamError('cidrs is required for summarize', 'VALIDATION');
+      }
+      const prefixes = input.cidrs.map(c => parseCidr(c));
+      return { input: input.cidrs, summary: summarizePrefixes(prefixes).map(formatCidr) };
+    }
+    
+    case 'normalize': {
+      if (!input.value) {
+        throw new PhpIpamError('value is required for normalize', 'VALIDATION');
+      }
+      if (input.value.includes('/')) {
+        const prefix = parseCidr(input.value);
+        const network = { version: prefix.version, value: prefix.network };
+        return {
+          input: input.value,
+          canonical: formatCidr(prefix),
+          expanded: `${formatIpExpanded(network)}/${prefix.prefixLength}`,
+          version: prefix.version,
+        };
+      }
+      const address = parseIp(input.value);
+      return {
+        input: input.value,
+        canonical: formatIp(address),
+        expanded: formatIpExpanded(address),
+        version: address.version,
+      };
+    }
+    
+    case 'eui64': {
+      const prefix = parseCidr(requireCidr());
+      if (!input.mac) {
+        throw new PhpIpamError('mac is required for eui64', 'VALIDATION');
+      }
+      const address = eui64Address(prefix, input.mac);
+      return {
+        cidr: formatCidr(prefix),
+        mac: formatMac(parseMac(input.mac)),
+        address: formatIp(address),
+        expanded: formatIpExpanded(address),
+      };
+    }
+    
+    default:
+      throw new PhpIpamError(
+        `Invalid operation: ${input.operation}. Must be one of info, contains, overlap, split, summarize, normalize, eui64`,
+        'VALIDATION'
+      );
+  }
+}
+
+async function handleTool(
+  name: string,
+  args: Record<string, unknown>,
+  client: PhpIpamClient,
+  config: PhpIpamConfig,
+  services: ToolServices
+): Promise<unknown> {
+  if (WRITE_TOOLS.has(name) && config.writeEnabled) {
+    await enforcePolicy(name, args, client, config, services);
+  }
+  
+  switch (name) {
+    // Health
+    case 'phpipam.health':
+      return client.health();
+    
+    // Cache
+    case 'phpipam.cache.stats':
+      return client.cacheStats();
+    
+    case 'phpipam.cache.clear': {
+      const input = args as unknown as ClearCacheInput;
+      if (input.entity !== undefined && !CACHE_ENTITIES.includes(input.entity)) {
+        throw new PhpIpamError(
+          `Invalid entity: ${input.entity}. Must be one of ${CACHE_ENTITIES.join(', ')}`,
+          'VALIDATION'
+        );
+      }
+      return { cleared: client.clearCache(input.entity), entity: input.entity || 'all' };
+    }
+    
+    // Metrics
+    case 'phpipam.metrics':
+      return { contentType: METRICS_CONTENT_TYPE, metrics: services.metrics.render() };
+    
+    // IP Calculator (Offline)
+    case 'phpipam.calc': {
+      const input = args as unknown as CalcInput;
+      return calculate(input);
+    }
+    
+    // Sections (Read)
+    case 'phpipam.sections.list':
+      return client.listSections();
+    
+    case 'phpipam.sections.get': {
+      const input = args as unknown as GetSectionInput;
+      if (input.id) {
+        return client.getSection(input.id);
+      }
+      if (input.name) {
+        const section = await client.getSectionByName(input.name);
+        if (!section) {
+          throw new PhpIpamError(`Section not found: ${input.name}`, 'NOT_FOUND');
+        }
+        return section;
+      }
+      throw new PhpIpamError('Either id or name is required', 'VALIDATION');
+    }
+    
+    // Subnets (Read)
+    case 'phpipam.subnets.list': {
+      const input = args as unknown as ListSubnetsInput;
+      if (!input.sectionId) {
+        throw new PhpIpamError('sectionId is required', 'VALIDATION');
+      }
+      return client.listSubnets(input.sectionId);
+    }
+    
+    case 'phpipam.subnets.get': {
+      const input = args as unknown as GetSubnetInput;
+      return resolveSubnet(client, input);
+    }
+    
+    case 'phpipam.subnets.free': {
+      const input = args as unknown as SubnetFreeInput;
+      const subnet = await resolveSubnet(client, input);
+      const addresses = await client.listAddresses(subnet.id);
+      const count = input.count === undefined ? DEFAULT_FREE_COUNT : Number(input.count);
+      return describeFreeAddresses(subnet, addresses, count);
+    }
+    
+    case 'phpipam.subnets.gaps': {
+      const input = args as unknown as SubnetGapsInput;
+      const parent = await resolveSubnet(client, input);
+      const children = await client.listChildSubnets(parent.id);
+      const mask = input.mask === undefined ? undefined : Number(input.mask);
+      return describeSubnetGaps(parent, children, mask);
+    }
+    
+    // Addresses (Read)
+    case 'phpipam.addresses.list': {
+      const input = args as unknown as ListAddressesInput;
+      if (!input.subnetId) {
+        throw new PhpIpamError('subnetId is required', 'VALIDATION');
+      }
+      return client.listAddresses(input.subnetId);
+    }
+    
+    case 'phpipam.addresses.get': {
+      const input = args as unknown as GetAddressInput;
+      if (input.id) {
+        return client.getAddress(input.id);
+      }
+      if (input.ip) {
+        const ip = canonicalIp(input.ip);
+        const vrfId = await resolveVrfId(client, input.vrf);
+        const address = await client.getAddressByIp(ip, vrfId);
+        if (!address) {
+          throw new PhpIpamError(`Address not found: ${input.ip}`, 'NOT_FOUND');
+        }
+        return address;
+      }
+      throw new PhpIpamError('Either id or ip is required', 'VALIDATION');
+    }
+    
+    // Search
+    case 'phpipam.search': {
+      const input = args as unknown as SearchInput;
+      if (!input.query) {
+        throw new PhpIpamError('query is required', 'VALIDATION');
+      }
+      return search(client, input);
+    }
+    
+    case 'phpipam.search.federated': {
+      const input = args as unknown as SearchInput;
+      if (!input.query) {
+        throw new PhpIpamError('query is required', 'VALIDATION');
+      }
+      
+      const results = await Promise.all([...services.instances].map(async ([instance, { client }]) => {
+        try {
+          return { instance, ...await search(client, input) };
+        } catch (error) {
+          return {
+            instance,
+            error: error instanceof PhpIpamError
+              ? { code: error.code, message: error.message }
+              : { code: 'INTERNAL', message: error instanceof Error ? error.message : String(error) },
+          };
+        }
+      }));
+      return { query: input.query, instances: results };
+    }
+    
+    // Addresses (Write)
+    case 'phpipam.addresses.allocate': {
+      assertWriteEnabled(config, 'addresses.allocate');
+      const input = args as unknown as AllocateAddressInput;
+      if (!input.subnetId) {
+        throw new PhpIpamError('subnetId is required', 'VALIDATION');
+      }
+      
+      if (input.slaac) {
+        if (!input.mac) {
+          throw new PhpIpamError('mac is required when slaac is true', 'VALIDATION');
+        }
+        const subnet = await client.getSubnet(input.subnetId);
+        const address = eui64Address(parseCidr(`${subnet.subnet}/${subnet.mask}`), input.mac);
+        return client.createAddress({
+          ip: formatIp(address),
+          subnetId: input.subnetId,
+          hostname: input.hostname,
+          description: input.description,
+          mac: formatMac(parseMac(input.mac)),
+          owner: input.owner,
+          note: input.note,
+        });
+      }
+      
+      return client.allocateFirstFree(input.subnetId, {
+        hostname: input.hostname,
+        description: input.description,
+        mac: input.mac,
+        owner: input.owner,
+        note: input.note,
+      });
+    }
+    
+    case 'phpipam.addresses.allocateBatch': {
+      assertWriteEnabled(config, 'addresses.allocateBatch');
+      const input = args as unknown as AllocateBatchInput;
+      return allocateBatch(client, input);
+    }
+    
+    case 'phpipam.addresses.release': {
+      assertWriteEnabled(config, 'addresses.release');
+      const input = args as unknown as ReleaseAddressInput;
+      
+      let addressId = input.id;
+      let address: Address | null = null;
+      if (!addressId && input.ip) {
+        address = await client.getAddressByIp(canonicalIp(input.ip), await resolveVrfId(client, input.vrf));
+        if (!address) {
+          throw new PhpIpamError(`Address not found: ${input.ip}`, 'NOT_FOUND');
+        }
+        addressId = address.id;
+      }
+      
+      if (!addressId) {
+        throw new PhpIpamError('Either id or ip is required', 'VALIDATION');
+      }
+      
+      if (needsConfirmation(config, args)) {
+        address = address || await client.getAddress(addressId);
+        const target = { type: 'address', id: address.id, ip: address.ip, editDate: address.editDate };
+        if (!input.confirmToken) {
+          const subnet = await client.getSubnet(address.subnetId);
+          return {
+            ...services.confirmations.issue(name, target, args, config.confirmTtl),
+            willDelete: { address, subnet: `${subnet.subnet}/${subnet.mask}` },
+          };
+        }
+        services.confirmations.consume(input.confirmToken, name, target, args);
+      }
+      
+      await client.deleteAddress(addressId);
+      return { success: true, message: `Address ${addressId} released` };
+    }
+    
+    case 'phpipam.addresses.upsert': {
+      assertWriteEnabled(config, 'addresses.upsert');
+      const input = args as unknown as UpsertAddressInput;
+      
+      if (!input.ip || !input.subnetId) {
+        throw new PhpIpamError('ip and subnetId are required', 'VALIDATION');
+      }
+      
+      const ip = canonicalIp(input.ip);
+      
+      // Check if address already exists in the subnet's VRF
+      const existing = await findUpsertTarget(client, ip, input.subnetId);
+      
+      if (existing) {
+        // Update existing address
+        return client.updateAddress(existing.id, {
+          hostname: input.hostname,
+          description: input.description,
+          mac: input.mac,
+          owner: input.owner,
+          note: input.note,
+        });
+      } else {
+        // Create new address
+        return client.createAddress({
+          ip,
+          subnetId: input.subnetId,
+          hostname: input.hostname,
+          description: input.description,
+          mac: input.mac,
+          owner: input.owner,
+          note: input.note,
+        });
+      }
+    }
+    
+    // Subnet Creation
     case 'phpipam.subnets.ensure': {
       assertSubnetCreateEnabled(config);
       const input = args as unknown as EnsureSubnetInput;
@@ -394,28 +1508,64 @@ async function handleTool(
         throw new PhpIpamError('cidr and sectionId are required', 'VALIDATION');
       }
       
+      // Reject malformed or misaligned prefixes before touching phpIPAM
+      const prefix = parseCidr(input.cidr, { strict: true });
+      const vrfId = await resolveVrfId(client, input.vrf);
+      
       // Check if subnet already exists
-      const existing = await client.getSubnetByCidr(input.cidr);
+      const existing = await client.getSubnetByCidr(formatCidr(prefix), vrfId);
       if (existing) {
         return { ...existing, created: false };
       }
       
-      // Parse CIDR
-      const [subnet, maskStr] = input.cidr.split('/');
-      const mask = maskStr;
-      
       const newSubnet = await client.createSubnet({
-        subnet,
-        mask,
+        subnet: formatIp({ version: prefix.version, value: prefix.network }),
+        mask: String(prefix.prefixLength),
         sectionId: input.sectionId,
         description: input.description,
         vlanId: input.vlanId,
         masterSubnetId: input.masterSubnetId,
+        vrfId,
       });
       
       return { ...newSubnet, created: true };
     }
     
+    case 'phpipam.subnets.allocate': {
+      assertSubnetCreateEnabled(config, 'subnets.allocate');
+      const input = args as unknown as AllocateSubnetInput;
+      
+      let parent: Subnet;
+      if (input.parentId) {
+        parent = await client.getSubnet(input.parentId);
+      } else if (input.parentCidr) {
+        const vrfId = await resolveVrfId(client, input.vrf);
+        const found = await client.getSubnetByCidr(canonicalCidr(input.parentCidr, { strict: true }), vrfId);
+        if (!found) {
+          throw new PhpIpamError(`Parent subnet not found: ${input.parentCidr}`, 'NOT_FOUND');
+        }
+        parent = found;
+      } else {
+        throw new PhpIpamError('Either parentId or parentCidr is required', 'VALIDATION');
+      }
+      
+      const mask = Number(input.mask);
+      const maxMask = bitLength(parseIp(parent.subnet).version);
+      if (!Number.isInteger(mask) || mask <= Number(parent.mask) || mask > maxMask) {
+        throw new PhpIpamError(
+          `Invalid mask: ${input.mask}. Must be between ${Number(parent.mask) + 1} and ${maxMask} for parent ${parent.subnet}/${parent.mask}`,
+          'VALIDATION'
+        );
+      }
+      
+      const newSubnet = await client.allocateFirstSubnet(parent.id, mask, {
+        description: input.description,
+        vlanId: input.vlanId,
+      });
+      
+      return { ...newSubnet, parentId: parent.id };
+    }
+    
     // Section Creation
     case 'phpipam.sections.ensure': {
       assertSectionCreateEnabled(config);
@@ -440,36 +1590,420 @@ async function handleTool(
       return { ...newSection, created: true };
     }
     
+    // VLANs (Read)
+    case 'phpipam.vlans.list': {
+      const input = args as unknown as ListVlansInput;
+      return client.listVlans(input.domainId);
+    }
+    
+    case 'phpipam.vlans.get': {
+      const input = args as unknown as GetVlanInput;
+      return resolveVlan(client, input);
+    }
+    
+    case 'phpipam.vlans.subnets': {
+      const input = args as unknown as ListVlanSubnetsInput;
+      const vlan = await resolveVlan(client, input);
+      const subnets = await client.listVlanSubnets(vlan.id, input.sectionId);
+      return { vlan, subnets };
+    }
+    
+    // VLANs (Write)
+    case 'phpipam.vlans.ensure': {
+      assertWriteEnabled(config, 'vlans.ensure');
+      const input = args as unknown as EnsureVlanInput;
+      
+      if (!input.number || !input.name) {
+        throw new PhpIpamError('number and name are required', 'VALIDATION');
+      }
+      
+      const number = Number(input.number);
+      if (!Number.isInteger(number) || number < 1 || number > 4094) {
+        throw new PhpIpamError(`Invalid VLAN number: ${input.number}. Must be 1-4094`, 'VALIDATION');
+      }
+      
+      const domainId = input.domainId || '1';
+      
+      // Check if VLAN already exists in this domain
+      const existing = await client.getVlanByNumber(String(number), domainId);
+      if (existing) {
+        return { ...existing, created: false };
+      }
+      
+      const newVlan = await client.createVlan({
+        domainId,
+        number: String(number),
+        name: input.name,
+        description: input.description,
+      });
+      
+      return { ...newVlan, created: true };
+    }
+    
+    case 'phpipam.vlans.update': {
+      assertWriteEnabled(config, 'vlans.update');
+      const input = args as unknown as UpdateVlanInput;
+      
+      if (!input.id) {
+        throw new PhpIpamError('id is required', 'VALIDATION');
+      }
+      
+      return client.updateVlan(input.id, {
+        number: input.number,
+        name: input.name,
+        description: input.description,
+      });
+    }
+    
+    case 'phpipam.vlans.delete': {
+      assertWriteEnabled(config, 'vlans.delete');
+      const input = args as unknown as DeleteVlanInput;
+      const vlan = await resolveVlan(client, input);
+      
+      if (needsConfirmation(config, args)) {
+        const target = { type: 'vlan', id: vlan.id, number: vlan.number, domainId: vlan.domainId, editDate: vlan.editDate };
+        if (!input.confirmToken) {
+          // Subnets stay but lose their VLAN assignment
+          const subnets = await client.listVlanSubnets(vlan.id);
+          return {
+            ...services.confirmations.issue(name, target, args, config.confirmTtl),
+            willDelete: { vlan, detachesSubnets: subnets.map(s => `${s.subnet}/${s.mask}`) },
+          };
+        }
+        services.confirmations.consume(input.confirmToken, name, target, args);
+      }
+      
+      await client.deleteVlan(vlan.id);
+      return { success: true, message: `VLAN ${vlan.number} (${vlan.id}) deleted` };
+    }
+    
+    // Devices (Read)
+    case 'phpipam.devices.list':
+      return client.listDevices();
+    
+    case 'phpipam.devices.get': {
+      const input = args as unknown as GetDeviceInput;
+      return resolveDevice(client, input);
+    }
+    
+    case 'phpipam.devices.addresses': {
+      const input = args as unknown as GetDeviceInput;
+      const device = await resolveDevice(client, input);
+      const addresses = await client.listDeviceAddresses(device.id);
+      return { device, addresses };
+    }
+    
+    case 'phpipam.devices.findByIp': {
+      const input = args as unknown as FindDeviceByIpInput;
+      if (!input.ip) {
+        throw new PhpIpamError('ip is required', 'VALIDATION');
+      }
+      
+      const address = await client.getAddressByIp(canonicalIp(input.ip), await resolveVrfId(client, input.vrf));
+      if (!address) {
+        throw new PhpIpamError(`Address not found: ${input.ip}`, 'NOT_FOUND');
+      }
+      
+      // phpIPAM stores "0" or null when no device is linked
+      if (!address.deviceId || address.deviceId === '0') {
+        throw new PhpIpamError(`Address ${input.ip} is not attached to a device`, 'NOT_FOUND');
+      }
+      
+      const device = await client.getDevice(address.deviceId);
+      return { address, device };
+    }
+    
+    // Devices (Write)
+    case 'phpipam.devices.ensure': {
+      assertWriteEnabled(config, 'devices.ensure');
+      const input = args as unknown as EnsureDeviceInput;
+      
+      if (!input.hostname) {
+        throw new PhpIpamError('hostname is required', 'VALIDATION');
+      }
+      
+      // Check if device already exists
+      const existing = await client.getDeviceByHostname(input.hostname);
+      if (existing) {
+        return { ...existing, created: false };
+      }
+      
+      const newDevice = await client.createDevice({
+        hostname: input.hostname,
+        ip_addr: input.ip_addr ? canonicalIp(input.ip_addr) : undefined,
+        description: input.description,
+        type: input.type,
+        location: input.location,
+      });
+      
+      return { ...newDevice, created: true };
+    }
+    
+    case 'phpipam.devices.update': {
+      assertWriteEnabled(config, 'devices.update');
+      const input = args as unknown as UpdateDeviceInput;
+      
+      if (!input.id) {
+        throw new PhpIpamError('id is required', 'VALIDATION');
+      }
+      
+      return client.updateDevice(input.id, {
+        hostname: input.hostname,
+        ip_addr: input.ip_addr ? canonicalIp(input.ip_addr) : undefined,
+        description: input.description,
+        type: input.type,
+        location: input.location,
+      });
+    }
+    
+    // VRFs (Read)
+    case 'phpipam.vrfs.list':
+      return client.listVrfs();
+    
+    case 'phpipam.vrfs.get': {
+      const input = args as unknown as GetVrfInput;
+      return resolveVrf(client, input);
+    }
+    
+    case 'phpipam.vrfs.subnets': {
+      const input = args as unknown as GetVrfInput;
+      const vrf = await resolveVrf(client, input);
+      const subnets = await client.listVrfSubnets(vrf.id);
+      return { vrf, subnets };
+    }
+    
+    // VRFs (Write)
+    case 'phpipam.vrfs.ensure': {
+      assertWriteEnabled(config, 'vrfs.ensure');
+      const input = args as unknown as EnsureVrfInput;
+      
+      if (!input.name) {
+        throw new PhpIpamError('name is required', 'VALIDATION');
+      }
+      
+      // Check if VRF already exists
+      const existing = await client.getVrfByName(input.name);
+      if (existing) {
+        return { ...existing, created: false };
+      }
+      
+      const newVrf = await client.createVrf({
+        name: input.name,
+        rd: input.rd,
+        description: input.description,
+      });
+      
+      return { ...newVrf, created: true };
+    }
+    
+    // Audit
+    case 'phpipam.audit.query': {
+      const { audit } = services;
+      if (!audit) {
+        throw new PhpIpamError('Audit journal is disabled. Set PHPIPAM_AUDIT_LOG to a file path to enable it.', 'FORBIDDEN');
+      }
+      const input = args as unknown as AuditQueryInput;
+      return audit.query({ ...input, ip: input.ip ? canonicalIp(input.ip) : undefined });
+    }
+    
+    // Change History
+    case 'phpipam.changes.list': {
+      const input = args as unknown as ListChangesInput;
+      const limit = input.limit === undefined ? DEFAULT_CHANGES_LIMIT : Number(input.limit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > DEFAULT_HISTORY_SIZE) {
+        throw new PhpIpamError(`Invalid limit: ${input.limit}. Must be 1-${DEFAULT_HISTORY_SIZE}`, 'VALIDATION');
+      }
+      return services.history.list(limit).map(entry => ({
+        changeId: entry.id,
+        timestamp: entry.timestamp,
+        instance: entry.instance,
+        tool: entry.tool,
+        outcome: entry.outcome,
+        targets: entry.targets,
+        changes: entry.changes.map(c => ({ method: c.method, path: c.path, diff: c.diff })),
+        revertedBy: services.history.revertedBy(entry.id),
+      }));
+    }
+    
+    case 'phpipam.changes.revert': {
+      assertWriteEnabled(config, 'changes.revert');
+      const input = args as unknown as RevertChangesInput;
+      
+      if (!input.changeId) {
+        throw new PhpIpamError('changeId is required', 'VALIDATION');
+      }
+      
+      const plan = await planRevert(client, services.history, services.audit, config.instance, input.changeId, input.force === true);
+      
+      // Undoing a create deletes the object, possibly a subnet or section
+      const deletes = revertDeletes(plan);
+      if (deletes.length > 0 && needsConfirmation(config, args)) {
+        const target = { type: 'revert', changeId: plan.changeId, deletes: deletes.map(d => ({ type: d.type, id: d.id })) };
+        if (!input.confirmToken) {
+          return {
+            ...services.confirmations.issue(name, target, args, config.confirmTtl),
+            willDelete: deletes,
+          };
+        }
+        services.confirmations.consume(input.confirmToken, name, target, args);
+      }
+      
+      return applyRevert(plan);
+    }
+    
+    // Snapshots
+    case 'phpipam.snapshot.create': {
+      if (config.offlineSnapshot) {
+        throw new PhpIpamError(`Already running from the offline snapshot ${config.offlineSnapshot}`, 'VALIDATION');
+      }
+      if (!config.snapshotPath) {
+        throw new PhpIpamError(
+          'Snapshot export is disabled. Set PHPIPAM_SNAPSHOT_PATH (or PHPIPAM_<INSTANCE>_SNAPSHOT_PATH) to a file path to enable it.',
+          'FORBIDDEN'
+        );
+      }
+      const snapshot = await createSnapshot(client.uncached(), config);
+      await writeSnapshot(config.snapshotPath, snapshot);
+      return {
+        path: config.snapshotPath,
+        version: snapshot.version,
+        createdAt: snapshot.createdAt,
+        counts: {
+          sections: snapshot.sections.length,
+          subnets: snapshot.subnets.length,
+          addresses: snapshot.addresses.length,
+          vlans: snapshot.vlans.length,
+          vrfs: snapshot.vrfs.length,
+          devices: snapshot.devices.length,
+        },
+      };
+    }
+    
     default:
       throw new PhpIpamError(`Unknown tool: ${name}`, 'VALIDATION');
   }
 }
 
-// ============================================================================
-// Main Server
-// ============================================================================
+/**
+ * Look up a configured instance by name, or the default one
+ */
+function resolveInstance(services: ToolServices, name: string | undefined): Instance {
+  const instanceName = name === undefined || name === '' ? services.defaultInstance : String(name);
+  const instance = services.instances.get(instanceName);
+  if (!instance) {
+    throw new PhpIpamError(
+      `Unknown instance: ${instanceName}. Configured instances: ${[...services.instances.keys()].join(', ')}`,
+      'VALIDATION'
+    );
+  }
+  return instance;
+}
 
-async function main(): Promise<void> {
-  // Load configuration
-  let config: PhpIpamConfig;
+/**
+ * Run a tool. Write tools go through a dry-run client when requested per call
+ * (dryRun: true) or globally (PHPIPAM_DRY_RUN=true); otherwise through a
+ * recording client so every mutation lands in the change history and the
+ * audit journal. Results of calls that changed something carry a changeId.
+ */
+async function executeTool(
+  name: string,
+  args: Record<string, unknown>,
+  services: ToolServices
+): Promise<unknown> {
+  const { client, config } = resolveInstance(services, args.instance as string | undefined);
+  
+  if (!WRITE_TOOLS.has(name)) {
+    return handleTool(name, args, client, config, services);
+  }
+  
+  if (isDryRun(config, args)) {
+    const planner = client.dryRun();
+    const result = await handleTool(name, args, planner, config, services);
+    return {
+      dryRun: true,
+      tool: name,
+      requests: planner.getChanges(),
+      result,
+    };
+  }
+  
+  await services.audit?.checkWritable();
+  
+  const recorder = client.recorder();
+  const startedAt = Date.now();
+  let result: unknown;
+  let failure: unknown;
   try {
-    config = loadConfig();
+    result = await handleTool(name, args, recorder, config, services);
   } catch (error) {
-    if (error instanceof PhpIpamError) {
-      console.error(`Configuration error: ${error.message}`);
-      process.exit(1);
-    }
-    throw error;
+    failure = error;
   }
   
-  // Log configuration (with secrets masked)
-  console.error('phpIPAM MCP Server starting...');
-  console.error('Configuration:', JSON.stringify(maskConfig(config), null, 2));
-  
-  // Create client
-  const client = new PhpIpamClient(config);
+  const entry = createAuditEntry({
+    instance: config.instance,
+    tool: name,
+    args,
+    startedAt,
+    changes: recorder.getChanges() || [],
+    result,
+    error: failure,
+  });
+  services.history.add(entry);
+  if (failure === undefined && name === 'phpipam.changes.revert' && entry.changes.length > 0) {
+    services.history.markReverted(String(args.changeId), entry.id);
+  }
+  // The change already happened; a journal failure is reported with the result, not instead of it
+  const auditError = services.audit ? await services.audit.tryAppend(entry) : undefined;
+  if (auditError !== undefined) {
+    console.error(`${auditError} (change ${entry.id})`);
+  }
+  services.resourceEvents.publish(config.instance, entry.changes);
   
-  // Create MCP server
+  if (failure !== undefined) {
+    throw failure;
+  }
+  const fields = result && typeof result === 'object' && !Array.isArray(result) ? result : null;
+  if (auditError !== undefined) {
+    return { ...(fields || { result }), changeId: entry.id, auditError };
+  }
+  if (entry.changes.length > 0 && fields) {
+    return { ...fields, changeId: entry.id };
+  }
+  return result;
+}
+
+/**
+ * Execute a tool, counting the call by outcome and timing it
+ */
+async function callTool(
+  name: string,
+  args: Record<string, unknown>,
+  services: ToolServices
+): Promise<unknown> {
+  // Unknown names share one label so callers cannot grow the series without bound
+  const tool = TOOL_NAMES.has(name) ? name : 'unknown';
+  const started = process.hrtime.bigint();
+  let outcome = 'success';
+  try {
+    return await executeTool(name, args, services);
+  } catch (error) {
+    outcome = error instanceof PhpIpamError ? error.code.toLowerCase() : 'internal';
+    throw error;
+  } finally {
+    services.metrics.toolCalls.inc({ tool, outcome });
+    services.metrics.toolDuration.observe({ tool }, Number(process.hrtime.bigint() - started) / 1e9);
+  }
+}
+
+// ============================================================================
+// MCP Server
+// ============================================================================
+
+/**
+ * Build an MCP server bound to the shared services. stdio uses one; the HTTP
+ * transport creates one per client session.
+ */
+function createMcpServer(services: ToolServices): Server {
   const server = new Server(
     {
       name: 'phpipam-mcp',
@@ -478,13 +2012,16 @@ async function main(): Promise<void> {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        completions: {},
       },
     }
   );
   
   // Handle tool listing
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools: TOOLS };
+    return { tools: withInstanceArgument(TOOLS, [...services.instances.keys()]) };
   });
   
   // Handle tool execution
@@ -492,7 +2029,7 @@ async function main(): Promise<void> {
     const { name, arguments: args = {} } = request.params;
     
     try {
-      const result = await handleTool(name, args as Record<string, unknown>, client, config);
+      const result = await callTool(name, args as Record<string, unknown>, services);
       return {
         content: [
           {
@@ -500,6 +2037,8 @@ async function main(): Promise<void> {
             text: JSON.stringify(result, null, 2),
           },
         ],
+        // A change that was made but not journaled must not read as a clean success
+        ...(result && typeof result === 'object' && 'auditError' in result ? { isError: true } : {}),
       };
     } catch (error) {
       if (error instanceof PhpIpamError) {
@@ -511,6 +2050,7 @@ async function main(): Promise<void> {
                 error: error.code,
                 message: error.message,
                 retryable: error.retryable,
+                ...(error.retryAfter !== undefined ? { retryAfter: error.retryAfter } : {}),
               }),
             },
           ],
@@ -535,11 +2075,193 @@ async function main(): Promise<void> {
     }
   });
   
-  // Connect via stdio
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  // Resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources = [];
+    for (const [name, { client }] of services.instances) {
+      resources.push(...await listResources(client, name === services.defaultInstance ? undefined : name));
+    }
+    return { resources };
+  });
+  
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+  
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      const ref = parseResourceUri(uri);
+      const data = await readResource(resolveInstance(services, ref.instance).client, ref);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+  
+  // Prompts
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const multiInstance = services.instances.size > 1;
+    return {
+      prompts: PROMPTS.map(prompt => multiInstance
+        ? { ...prompt, arguments: [...prompt.arguments, { name: 'instance', description: INSTANCE_PROPERTY.description }] }
+        : prompt),
+    };
+  });
+  
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const { name, arguments: args = {} } = request.params;
+    try {
+      return await getPrompt(resolveInstance(services, args.instance).client, name, args);
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+  
+  // Argument completion for prompts, resource templates and tools
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    try {
+      const instance = resolveInstance(services, request.params.context?.arguments?.instance);
+      return { completion: await instance.completer.complete(request.params) };
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+  
+  // Subscriptions belong to this server, i.e. to one client session
+  const subscriptions = new Map<string, string[]>();
+  
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    try {
+      const ref = parseResourceUri(uri);
+      const { client, config } = resolveInstance(services, ref.instance);
+      subscriptions.set(uri, await subscriptionKeys(client, ref, config.instance));
+      return {};
+    } catch (error) {
+      throw toMcpError(error);
+    }
+  });
+  
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+  
+  const unsubscribe = services.resourceEvents.subscribe((instance, changes) => {
+    const touched = new Set(changeKeys(instance, changes));
+    for (const [uri, keys] of subscriptions) {
+      if (keys.some(key => touched.has(key))) {
+        server.sendResourceUpdated({ uri }).catch(() => undefined);
+      }
+    }
+    if (changesResourceList(changes)) {
+      server.sendResourceListChanged().catch(() => undefined);
+    }
+  });
+  server.onclose = unsubscribe;
+  
+  return server;
+}
+
+/**
+ * Report bad URIs, prompt arguments and missing objects as invalid params
+ * rather than internal errors
+ */
+function toMcpError(error: unknown): unknown {
+  if (error instanceof PhpIpamError && (error.code === 'VALIDATION' || error.code === 'NOT_FOUND')) {
+    return new McpError(ErrorCode.InvalidParams, error.message);
+  }
+  return error;
+}
+
+// ============================================================================
+// Main Server
+// ============================================================================
+
+async function main(): Promise<void> {
+  // Load configuration
+  let defaultInstance: string;
+  let configs: PhpIpamConfig[];
+  let serverConfig: ServerConfig;
+  let instances: Map<string, Instance>;
+  const metrics = new Metrics();
+  try {
+    ({ defaultInstance, configs } = loadInstances());
+    serverConfig = loadServerConfig();
+    
+    // Create one client per instance (offline ones load their snapshot here)
+    instances = new Map(configs.map(config => {
+      const client = new PhpIpamClient(config, metrics);
+      return [config.instance, { config, client, completer: new Completer(client) }];
+    }));
+  } catch (error) {
+    if (error instanceof PhpIpamError) {
+      console.error(`Configuration error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+  
+  // Log configuration (with secrets masked)
+  console.error('phpIPAM MCP Server starting...');
+  console.error('Server:', JSON.stringify(maskServerConfig(serverConfig), null, 2));
+  for (const config of configs) {
+    console.error(`Configuration (${config.instance}):`, JSON.stringify(maskConfig(config), null, 2));
+  }
+  
+  const auditLogPath = configs[0].auditLogPath;
+  const services: ToolServices = {
+    instances,
+    defaultInstance,
+    audit: auditLogPath ? new AuditLog(auditLogPath) : null,
+    history: new ChangeHistory(),
+    confirmations: new ConfirmationTokens(),
+    resourceEvents: new ResourceEvents(),
+    metrics,
+  };
+  
+  const metricsServer = serverConfig.metricsPort !== undefined
+    ? await startMetricsServer(serverConfig.metricsHost, serverConfig.metricsPort, metrics)
+    : null;
+  if (metricsServer) {
+    console.error(`Metrics on http://${serverConfig.metricsHost}:${serverConfig.metricsPort}/metrics`);
+  }
+  
+  let shutdown: () => Promise<void>;
+  if (serverConfig.transport === 'http') {
+    const http = await startHttpTransport(serverConfig, () => createMcpServer(services));
+    shutdown = () => http.close();
+    console.error(`phpIPAM MCP Server listening on http://${serverConfig.httpHost}:${serverConfig.httpPort}${serverConfig.httpPath}`);
+  } else {
+    const server = createMcpServer(services);
+    await server.connect(new StdioServerTransport());
+    shutdown = () => server.close();
+    console.error('phpIPAM MCP Server running on stdio');
+  }
   
-  console.error('phpIPAM MCP Server running on stdio');
+  // Finish in-flight requests, close sessions and log out of phpIPAM before exiting
+  let stopping = false;
+  const stop = (signal: string): void => {
+    if (stopping) return;
+    stopping = true;
+    console.error(`Received ${signal}, shutting down...`);
+    shutdown()
+      .then(() => Promise.all([...instances.values()].map(instance => instance.client.close())))
+      .then(() => metricsServer?.close())
+      .catch(error => console.error('Shutdown error:', error))
+      .finally(() => process.exit(0));
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
 }
 
 main().catch((error) => {
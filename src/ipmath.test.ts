@@ -0,0 +1,177 @@
+import { describe, expect, it } from '@jest/globals';
+import { PhpIpamError } from './types.js';
+import {
+  parseIp,
+  parseCidr,
+  canonicalIp,
+  canonicalCidr,
+  formatIpExpanded,
+  isValidIp,
+  hostCount,
+  prefixContains,
+  prefixesOverlap,
+  splitPrefix,
+  summarizePrefixes,
+  firstFreeAddress,
+  freeRanges,
+  prefixRange,
+  rangeToPrefixes,
+  eui64InterfaceId,
+  eui64Address,
+  formatIp,
+  formatCidr,
+} from './ipmath.js';
+
+function validationError(fn: () => unknown): PhpIpamError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PhpIpamError);
+    expect((error as PhpIpamError).code).toBe('VALIDATION');
+    return error as PhpIpamError;
+  }
+  throw new Error('Expected a VALIDATION error');
+}
+
+describe('canonical formatting', () => {
+  it.each([
+    ['10.0.0.1', '10.0.0.1'],
+    [' 192.168.1.10 ', '192.168.1.10'],
+    ['2001:0DB8:0000:0000:0000:0000:0000:0001', '2001:db8::1'],
+    ['2001:db8:0:0:1:0:0:1', '2001:db8::1:0:0:1'],        // First of two equal zero runs
+    ['2001:db8:0:1:1:1:1:1', '2001:db8:0:1:1:1:1:1'],     // A single zero group is not compressed
+    ['fe80:0:0:0:0:0:0:0', 'fe80::'],
+    ['0:0:0:0:0:0:0:0', '::'],
+    ['::FFFF:192.0.2.1', '::ffff:192.0.2.1'],          // IPv4-mapped keeps dotted quad (RFC 5952 section 5)
+  ])('%s -> %s', (input, expected) => {
+    expect(canonicalIp(input)).toBe(expected);
+  });
+
+  it('expands IPv6 to eight padded groups', () => {
+    expect(formatIpExpanded(parseIp('2001:db8::1'))).toBe('2001:0db8:0000:0000:0000:0000:0000:0001');
+  });
+
+  it('masks host bits unless strict', () => {
+    expect(canonicalCidr('10.1.2.3/16')).toBe('10.1.0.0/16');
+    expect(validationError(() => canonicalCidr('10.1.2.3/16', { strict: true })).message).toContain('10.1.0.0/16');
+  });
+});
+
+describe(':: edge cases', () => {
+  it.each([
+    ['::', '::'],
+    ['::1', '::1'],
+    ['1::', '1::'],
+    ['1:2:3:4:5:6:7::', '1:2:3:4:5:6:7:0'],
+    ['::2:3:4:5:6:7:8', '0:2:3:4:5:6:7:8'],
+  ])('%s parses', (input, expected) => {
+    expect(canonicalIp(input)).toBe(expected);
+  });
+
+  it.each([
+    '1::2::3',
+    ':::',
+    '1:2:3:4:5:6:7::8',
+    '1:2:3:4:5:6:7::8:9',
+    '::1:2:3:4:5:6:7:8',
+  ])('%s is rejected', input => {
+    validationError(() => canonicalIp(input));
+  });
+});
+
+describe('invalid input', () => {
+  it.each([
+    '',
+    '256.0.0.1',
+    '10.0.0',
+    '010.0.0.1',
+    '1:2:3:4:5:6:7',
+    '1:2:3:4:5:6:7:8:9',
+    '1:2:3:4:5:6:7:8:9:10:11:12:13:14:15:16',
+    '12345::1',
+    '::ffff:300.0.0.1',
+    '1.2.3.4::',
+    'example.com',
+  ])('%j is a VALIDATION error', input => {
+    validationError(() => parseIp(input));
+    expect(isValidIp(input)).toBe(false);
+  });
+
+  it.each([
+    '10.0.0.0',
+    '10.0.0.0/33',
+    '2001:db8::/129',
+    '10.0.0.0/24/1',
+    '10.0.0.0/-1',
+  ])('%j is not a CIDR', input => {
+    validationError(() => parseCidr(input));
+  });
+});
+
+describe('prefix arithmetic', () => {
+  it('counts hosts', () => {
+    expect(hostCount(parseCidr('10.0.0.0/24'))).toBe(254n);
+    expect(hostCount(parseCidr('10.0.0.0/31'))).toBe(2n);
+    expect(hostCount(parseCidr('2001:db8::/64'))).toBe(1n << 64n);
+  });
+
+  it('checks containment and overlap', () => {
+    expect(prefixContains(parseCidr('10.0.0.0/8'), parseCidr('10.1.0.0/16'))).toBe(true);
+    expect(prefixContains(parseCidr('10.1.0.0/16'), parseCidr('10.0.0.0/8'))).toBe(false);
+    expect(prefixContains(parseCidr('10.0.0.0/24'), parseIp('10.0.0.77'))).toBe(true);
+    expect(prefixContains(parseCidr('10.0.0.0/8'), parseIp('::a00:1'))).toBe(false);
+    expect(prefixesOverlap(parseCidr('10.0.0.0/23'), parseCidr('10.0.1.0/24'))).toBe(true);
+    expect(prefixesOverlap(parseCidr('10.0.0.0/24'), parseCidr('10.0.1.0/24'))).toBe(false);
+  });
+
+  it('splits and summarizes', () => {
+    expect(splitPrefix(parseCidr('10.0.0.0/22'), 24).map(formatCidr))
+      .toEqual(['10.0.0.0/24', '10.0.1.0/24', '10.0.2.0/24', '10.0.3.0/24']);
+    validationError(() => splitPrefix(parseCidr('10.0.0.0/8'), 30));
+    expect(summarizePrefixes(['10.0.0.0/25', '10.0.0.128/25', '10.0.1.0/24'].map(c => parseCidr(c))).map(formatCidr))
+      .toEqual(['10.0.0.0/23']);
+  });
+
+  it('turns ranges into prefixes', () => {
+    expect(rangeToPrefixes(4, parseIp('10.0.0.1').value, parseIp('10.0.0.6').value).map(formatCidr))
+      .toEqual(['10.0.0.1/32', '10.0.0.2/31', '10.0.0.4/31', '10.0.0.6/32']);
+  });
+
+  it('finds the first free address', () => {
+    const subnet = parseCidr('10.0.0.0/29');
+    const used = ['10.0.0.1', '10.0.0.2', '10.0.0.4'].map(parseIp);
+    expect(formatIp(firstFreeAddress(subnet, used)!)).toBe('10.0.0.3');
+    const full = ['10.0.0.1', '10.0.0.2', '10.0.0.3', '10.0.0.4', '10.0.0.5', '10.0.0.6'].map(parseIp);
+    expect(firstFreeAddress(subnet, full)).toBeNull();
+    // IPv6 skips the subnet-router anycast address
+    expect(formatIp(firstFreeAddress(parseCidr('2001:db8::/64'), [])!)).toBe('2001:db8::1');
+  });
+
+  it('lists free ranges', () => {
+    const bounds = prefixRange(parseCidr('10.0.0.0/24'));
+    const used = [prefixRange(parseCidr('10.0.0.0/26')), prefixRange(parseCidr('10.0.0.128/26'))];
+    expect(freeRanges(bounds, used).flatMap(r => rangeToPrefixes(4, r.start, r.end)).map(formatCidr))
+      .toEqual(['10.0.0.64/26', '10.0.0.192/26']);
+  });
+});
+
+describe('EUI-64', () => {
+  it('derives the interface identifier (RFC 4291 appendix A)', () => {
+    expect(eui64InterfaceId('00:50:56:aa:bb:cc').toString(16)).toBe('25056fffeaabbcc');
+    expect(eui64InterfaceId('0050.56aa.bbcc')).toBe(eui64InterfaceId('00-50-56-AA-BB-CC'));
+  });
+
+  it('flips the universal/local bit back off for local MACs', () => {
+    expect(eui64InterfaceId('02:00:00:00:00:01').toString(16)).toBe('fffe000001');
+  });
+
+  it('builds the SLAAC address', () => {
+    expect(formatIp(eui64Address(parseCidr('2001:db8:1::/64'), '00:50:56:aa:bb:cc'))).toBe('2001:db8:1:0:250:56ff:feaa:bbcc');
+  });
+
+  it('rejects prefixes longer than /64, IPv4 and bad MACs', () => {
+    validationError(() => eui64Address(parseCidr('2001:db8::/80'), '00:50:56:aa:bb:cc'));
+    validationError(() => eui64Address(parseCidr('10.0.0.0/8'), '00:50:56:aa:bb:cc'));
+    validationError(() => eui64InterfaceId('00:50:56:aa:bb'));
+  });
+});
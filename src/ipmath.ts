@@ -0,0 +1,536 @@
+/**
+ * IPv4/IPv6 address math
+ *
+ * Pure, offline helpers for parsing, normalizing and comparing addresses and
+ * prefixes. Addresses are held as BigInt so both families share one code path.
+ * All parse failures throw VALIDATION errors so tools can reject bad input
+ * before any request reaches phpIPAM.
+ */
+
+import { PhpIpamError } from './types.js';
+
+export type IpVersion = 4 | 6;
+
+export interface IpAddress {
+  version: IpVersion;
+  value: bigint;
+}
+
+export interface IpPrefix {
+  version: IpVersion;
+  network: bigint;
+  prefixLength: number;
+}
+
+/** Inclusive address range */
+export interface IpRange {
+  version: IpVersion;
+  start: bigint;
+  end: bigint;
+}
+
+export interface ParseCidrOptions {
+  /** Reject prefixes with host bits set instead of masking them off */
+  strict?: boolean;
+}
+
+/** Upper bound on the number of prefixes a single split may produce */
+export const MAX_SPLIT_RESULTS = 4096;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function bitLength(version: IpVersion): number {
+  return version === 4 ? 32 : 128;
+}
+
+function parseIpv4(input: string): bigint | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(input);
+  if (!match) return null;
+
+  let value = 0n;
+  for (const octet of match.slice(1)) {
+    // Leading zeros are ambiguous (octal in some parsers), so reject them
+    if (octet.length > 1 && octet.startsWith('0')) return null;
+    const n = Number(octet);
+    if (n > 255) return null;
+    value = (value << 8n) | BigInt(n);
+  }
+  return value;
+}
+
+function parseIpv6(input: string): bigint | null {
+  if (!/^[0-9a-fA-F:.]+$/.test(input)) return null;
+
+  const halves = input.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string): string[] => (part === '' ? [] : part.split(':'));
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+
+  // An embedded IPv4 address may only appear as the final group
+  const last = halves.length === 2 ? tail : head;
+  if (last.length > 0 && last[last.length - 1].includes('.')) {
+    const v4 = parseIpv4(last[last.length - 1]);
+    if (v4 === null) return null;
+    last.splice(last.length - 1, 1, (v4 >> 16n).toString(16), (v4 & 0xffffn).toString(16));
+  }
+
+  // "::" stands for at least one group, so at most seven may be written around it
+  if (halves.length === 2 && head.length + tail.length > 7) return null;
+
+  const groups = halves.length === 2
+    ? [...head, ...Array<string>(8 - head.length - tail.length).fill('0'), ...tail]
+    : head;
+  if (groups.length !== 8) return null;
+
+  let value = 0n;
+  for (const group of groups) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) return null;
+    value = (value << 16n) | BigInt(`0x${group}`);
+  }
+  return value;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address
+ */
+export function parseIp(input: string): IpAddress {
+  const trimmed = typeof input === 'string' ? input.trim() : '';
+
+  const v4 = parseIpv4(trimmed);
+  if (v4 !== null) return { version: 4, value: v4 };
+
+  const v6 = trimmed.includes(':') ? parseIpv6(trimmed) : null;
+  if (v6 !== null) return { version: 6, value: v6 };
+
+  throw new PhpIpamError(`Invalid IP address: ${input}`, 'VALIDATION');
+}
+
+export function isValidIp(input: string): boolean {
+  try {
+    parseIp(input);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a prefix in CIDR notation. Host bits are masked off unless strict is set.
+ */
+export function parseCidr(input: string, options: ParseCidrOptions = {}): IpPrefix {
+  const trimmed = typeof input === 'string' ? input.trim() : '';
+  const parts = trimmed.split('/');
+  if (parts.length !== 2 || !/^\d{1,3}$/.test(parts[1])) {
+    throw new PhpIpamError(
+      `Invalid CIDR: ${input}. Expected address/prefix-length (e.g., 192.168.1.0/24)`,
+      'VALIDATION'
+    );
+  }
+
+  const address = parseIp(parts[0]);
+  const prefixLength = Number(parts[1]);
+  const bits = bitLength(address.version);
+  if (prefixLength > bits) {
+    throw new PhpIpamError(
+      `Invalid CIDR: ${input}. IPv${address.version} prefix length must be 0-${bits}`,
+      'VALIDATION'
+    );
+  }
+
+  const network = address.value & netmask(address.version, prefixLength);
+  if (options.strict && network !== address.value) {
+    const aligned = formatCidr({ version: address.version, network, prefixLength });
+    throw new PhpIpamError(
+      `Invalid CIDR: ${input} has host bits set. Did you mean ${aligned}?`,
+      'VALIDATION'
+    );
+  }
+
+  return { version: address.version, network, prefixLength };
+}
+
+export function isValidCidr(input: string, options: ParseCidrOptions = {}): boolean {
+  try {
+    parseCidr(input, options);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatIpv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map(shift => ((value >> shift) & 0xffn).toString()).join('.');
+}
+
+function ipv6Groups(value: bigint): number[] {
+  const groups: number[] = [];
+  for (let i = 7; i >= 0; i--) {
+    groups.push(Number((value >> BigInt(i * 16)) & 0xffffn));
+  }
+  return groups;
+}
+
+/**
+ * Format an IPv6 address in RFC 5952 canonical (compressed, lowercase) form
+ */
+function formatIpv6(value: bigint): string {
+  // IPv4-mapped addresses keep their dotted tail (::ffff:192.0.2.1)
+  if (value >> 32n === 0xffffn) {
+    return `::ffff:${formatIpv4(value & 0xffffffffn)}`;
+  }
+
+  const groups = ipv6Groups(value);
+
+  // Find the longest run of two or more zero groups (leftmost on ties)
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; i++) {
+    if (groups[i] !== 0) continue;
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(g => g.toString(16));
+  if (bestStart === -1) return hex.join(':');
+
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Format an address in canonical form (dotted quad, or RFC 5952 for IPv6)
+ */
+export function formatIp(address: IpAddress): string {
+  return address.version === 4 ? formatIpv4(address.value) : formatIpv6(address.value);
+}
+
+/**
+ * Format an IPv6 address with all eight groups zero-padded
+ */
+export function formatIpExpanded(address: IpAddress): string {
+  if (address.version === 4) return formatIpv4(address.value);
+  return ipv6Groups(address.value).map(g => g.toString(16).padStart(4, '0')).join(':');
+}
+
+export function formatCidr(prefix: IpPrefix): string {
+  return `${formatIp({ version: prefix.version, value: prefix.network })}/${prefix.prefixLength}`;
+}
+
+/**
+ * Validate an IP and return its canonical form
+ */
+export function canonicalIp(input: string): string {
+  return formatIp(parseIp(input));
+}
+
+/**
+ * Validate a CIDR and return its canonical form
+ */
+export function canonicalCidr(input: string, options: ParseCidrOptions = {}): string {
+  return formatCidr(parseCidr(input, options));
+}
+
+// ============================================================================
+// Prefix Arithmetic
+// ============================================================================
+
+export function netmask(version: IpVersion, prefixLength: number): bigint {
+  const bits = BigInt(bitLength(version));
+  const all = (1n << bits) - 1n;
+  return (all << (bits - BigInt(prefixLength))) & all;
+}
+
+export function prefixSize(prefix: IpPrefix): bigint {
+  return 1n << BigInt(bitLength(prefix.version) - prefix.prefixLength);
+}
+
+export function networkAddress(prefix: IpPrefix): IpAddress {
+  return { version: prefix.version, value: prefix.network };
+}
+
+/**
+ * Last address in the prefix (the broadcast address for IPv4)
+ */
+export function lastAddress(prefix: IpPrefix): IpAddress {
+  return { version: prefix.version, value: prefix.network + prefixSize(prefix) - 1n };
+}
+
+export function broadcastAddress(prefix: IpPrefix): IpAddress | null {
+  return prefix.version === 4 ? lastAddress(prefix) : null;
+}
+
+/**
+ * Number of assignable host addresses.
+ * IPv4 excludes network and broadcast except on /31 and /32 (RFC 3021).
+ * IPv6 has no broadcast; every address is counted.
+ */
+export function hostCount(prefix: IpPrefix): bigint {
+  const size = prefixSize(prefix);
+  if (prefix.version === 4 && prefix.prefixLength < 31) {
+    return size - 2n;
+  }
+  return size;
+}
+
+/**
+ * First and last assignable host addresses
+ */
+export function hostRange(prefix: IpPrefix): { first: IpAddress; last: IpAddress } {
+  const first = networkAddress(prefix);
+  const last = lastAddress(prefix);
+  if (prefix.version === 4 && prefix.prefixLength < 31) {
+    return {
+      first: { version: 4, value: first.value + 1n },
+      last: { version: 4, value: last.value - 1n },
+    };
+  }
+  return { first, last };
+}
+
+export function compareIp(a: IpAddress, b: IpAddress): number {
+  if (a.version !== b.version) return a.version - b.version;
+  return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+}
+
+export function comparePrefix(a: IpPrefix, b: IpPrefix): number {
+  if (a.version !== b.version) return a.version - b.version;
+  if (a.network !== b.network) return a.network < b.network ? -1 : 1;
+  return a.prefixLength - b.prefixLength;
+}
+
+/**
+ * Whether an address or prefix lies entirely within outer
+ */
+export function prefixContains(outer: IpPrefix, inner: IpPrefix | IpAddress): boolean {
+  if (outer.version !== inner.version) return false;
+  const innerPrefix: IpPrefix = 'value' in inner
+    ? { version: inner.version, network: inner.value, prefixLength: bitLength(inner.version) }
+    : inner;
+  if (innerPrefix.prefixLength < outer.prefixLength) return false;
+  return (innerPrefix.network & netmask(outer.version, outer.prefixLength)) === outer.network;
+}
+
+export function prefixesOverlap(a: IpPrefix, b: IpPrefix): boolean {
+  return prefixContains(a, b) || prefixContains(b, a);
+}
+
+/**
+ * Split a prefix into equal subnets of the given length
+ */
+export function splitPrefix(prefix: IpPrefix, newLength: number): IpPrefix[] {
+  const bits = bitLength(prefix.version);
+  if (!Number.isInteger(newLength) || newLength < prefix.prefixLength || newLength > bits) {
+    throw new PhpIpamError(
+      `Invalid prefix length: ${newLength}. Must be between ${prefix.prefixLength} and ${bits}`,
+      'VALIDATION'
+    );
+  }
+
+  const count = 1n << BigInt(newLength - prefix.prefixLength);
+  if (count > BigInt(MAX_SPLIT_RESULTS)) {
+    throw new PhpIpamError(
+      `Splitting ${formatCidr(prefix)} into /${newLength} yields ${count} subnets (limit ${MAX_SPLIT_RESULTS})`,
+      'VALIDATION'
+    );
+  }
+
+  const step = 1n << BigInt(bits - newLength);
+  const result: IpPrefix[] = [];
+  for (let i = 0n; i < count; i++) {
+    result.push({ version: prefix.version, network: prefix.network + i * step, prefixLength: newLength });
+  }
+  return result;
+}
+
+/**
+ * Minimal list of prefixes exactly covering an inclusive address range
+ */
+export function rangeToPrefixes(version: IpVersion, start: bigint, end: bigint): IpPrefix[] {
+  const bits = bitLength(version);
+  const result: IpPrefix[] = [];
+
+  let current = start;
+  while (current <= end) {
+    // Grow the block while it stays aligned and within the range
+    let hostBits = 0;
+    while (hostBits < bits) {
+      const size = 1n << BigInt(hostBits + 1);
+      if (current % size !== 0n || current + size - 1n > end) break;
+      hostBits++;
+    }
+    result.push({ version, network: current, prefixLength: bits - hostBits });
+    current += 1n << BigInt(hostBits);
+  }
+
+  return result;
+}
+
+/**
+ * Collapse prefixes into the smallest equivalent set (drops contained
+ * prefixes and merges adjacent ones)
+ */
+export function summarizePrefixes(prefixes: IpPrefix[]): IpPrefix[] {
+  const ranges = prefixes
+    .map(p => ({ version: p.version, start: p.network, end: p.network + prefixSize(p) - 1n }))
+    .sort((a, b) => a.version - b.version || (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  const merged: typeof ranges = [];
+  for (const range of ranges) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.version === range.version && range.start <= previous.end + 1n) {
+      if (range.end > previous.end) previous.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged.flatMap(r => rangeToPrefixes(r.version, r.start, r.end));
+}
+
+/**
+ * First unused host address in a prefix, or null when the prefix is full.
+ * IPv6 skips the subnet-router anycast address (the all-zero host).
+ */
+export function firstFreeAddress(prefix: IpPrefix, used: IpAddress[]): IpAddress | null {
+  const hosts = hostRange(prefix);
+  let candidate = hosts.first.value;
+  if (prefix.version === 6 && prefix.prefixLength < 127) {
+    candidate = prefix.network + 1n;
+  }
+
+  const taken = used
+    .filter(a => a.version === prefix.version && a.value >= candidate && a.value <= hosts.last.value)
+    .map(a => a.value)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+  for (const value of taken) {
+    if (value > candidate) break;
+    if (value === candidate) candidate++;
+  }
+
+  return candidate <= hosts.last.value ? { version: prefix.version, value: candidate } : null;
+}
+
+export function prefixRange(prefix: IpPrefix): IpRange {
+  return { version: prefix.version, start: prefix.network, end: lastAddress(prefix).value };
+}
+
+export function rangeSize(range: IpRange): bigint {
+  return range.end - range.start + 1n;
+}
+
+/**
+ * Parts of bounds not covered by any used range, in ascending order
+ */
+export function freeRanges(bounds: IpRange, used: IpRange[]): IpRange[] {
+  const sorted = used
+    .filter(r => r.version === bounds.version && r.end >= bounds.start && r.start <= bounds.end)
+    .sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+  const result: IpRange[] = [];
+  let cursor = bounds.start;
+  for (const range of sorted) {
+    if (range.start > cursor) {
+      result.push({ version: bounds.version, start: cursor, end: range.start - 1n });
+    }
+    if (range.end + 1n > cursor) {
+      cursor = range.end + 1n;
+    }
+    if (cursor > bounds.end) return result;
+  }
+
+  if (cursor <= bounds.end) {
+    result.push({ version: bounds.version, start: cursor, end: bounds.end });
+  }
+  return result;
+}
+
+// ============================================================================
+// MAC / EUI-64
+// ============================================================================
+
+/**
+ * Parse a 48-bit MAC address (aa:bb:cc:dd:ee:ff, aa-bb-cc-dd-ee-ff,
+ * aabb.ccdd.eeff or aabbccddeeff)
+ */
+export function parseMac(input: string): bigint {
+  const trimmed = typeof input === 'string' ? input.trim() : '';
+  const patterns = [
+    /^([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})[:-]([0-9a-f]{2})$/i,
+    /^([0-9a-f]{4})\.([0-9a-f]{4})\.([0-9a-f]{4})$/i,
+    /^([0-9a-f]{12})$/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(trimmed);
+    if (match) {
+      return BigInt(`0x${match.slice(1).join('')}`);
+    }
+  }
+
+  throw new PhpIpamError(`Invalid MAC address: ${input}`, 'VALIDATION');
+}
+
+export function formatMac(value: bigint): string {
+  return value.toString(16).padStart(12, '0').match(/../g)!.join(':');
+}
+
+/**
+ * Derive the modified EUI-64 interface identifier for a MAC (RFC 4291 appendix A):
+ * insert ff:fe in the middle and flip the universal/local bit.
+ */
+export function eui64InterfaceId(mac: string): bigint {
+  const value = parseMac(mac);
+  const oui = value >> 24n;
+  const nic = value & 0xffffffn;
+  const eui64 = (oui << 40n) | (0xfffen << 24n) | nic;
+  return eui64 ^ (0x02n << 56n);
+}
+
+/**
+ * SLAAC address a host with the given MAC configures in an IPv6 prefix
+ */
+export function eui64Address(prefix: IpPrefix, mac: string): IpAddress {
+  if (prefix.version !== 6 || prefix.prefixLength > 64) {
+    throw new PhpIpamError(
+      `EUI-64 addressing requires an IPv6 prefix of /64 or shorter, got ${formatCidr(prefix)}`,
+      'VALIDATION'
+    );
+  }
+  return { version: 6, value: prefix.network | eui64InterfaceId(mac) };
+}
+
+/**
+ * Summary of a prefix suitable for JSON output
+ */
+export function describePrefix(prefix: IpPrefix): Record<string, unknown> {
+  const hosts = hostRange(prefix);
+  const broadcast = broadcastAddress(prefix);
+  return {
+    cidr: formatCidr(prefix),
+    version: prefix.version,
+    network: formatIp(networkAddress(prefix)),
+    prefixLength: prefix.prefixLength,
+    netmask: prefix.version === 4 ? formatIp({ version: 4, value: netmask(4, prefix.prefixLength) }) : undefined,
+    broadcast: broadcast ? formatIp(broadcast) : undefined,
+    lastAddress: formatIp(lastAddress(prefix)),
+    firstHost: formatIp(hosts.first),
+    lastHost: formatIp(hosts.last),
+    totalAddresses: prefixSize(prefix).toString(),
+    usableHosts: hostCount(prefix).toString(),
+  };
+}
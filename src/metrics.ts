@@ -0,0 +1,212 @@
+/**
+ * Prometheus metrics
+ *
+ * Counters and histograms for tool calls, phpIPAM API latency, retries,
+ * session refreshes and the response cache, rendered in the Prometheus text
+ * exposition format. They are served on PHPIPAM_METRICS_PORT when set and
+ * always through the phpipam.metrics tool.
+ */
+
+import http from 'node:http';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Latency buckets in seconds, from a cached lookup to a slow bulk call */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type Labels = Record<string, string>;
+
+/**
+ * One metric family computed at scrape time, for values that already live
+ * elsewhere (cache counters, circuit breaker state)
+ */
+export interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge';
+  samples: Array<{ labels: Labels; value: number }>;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Series are keyed by their label values in declaration order
+ */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(readonly name: string, readonly help: string, private labelNames: string[]) {}
+
+  protected entry(labels: Labels, initial: () => T): { labels: Labels; value: T } {
+    const ordered = Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? '']));
+    const key = JSON.stringify(Object.values(ordered));
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  abstract render(): string[];
+}
+
+export class Counter extends Metric<number> {
+  inc(labels: Labels, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...[...this.series.values()].map(s => `${this.name}${formatLabels(s.labels)} ${s.value}`),
+    ];
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  observe(labels: Labels, seconds: number): void {
+    const value = this.entry(labels, () => ({ buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 })).value;
+    DURATION_BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) value.buckets[i]++;
+    });
+    value.sum += seconds;
+    value.count++;
+  }
+
+  /**
+   * Time a task, labelling the observation from its result or error
+   */
+  async time<T>(labels: (error: unknown, result?: T) => Labels, task: () => Promise<T>): Promise<T> {
+    const started = process.hrtime.bigint();
+    const elapsed = () => Number(process.hrtime.bigint() - started) / 1e9;
+    try {
+      const result = await task();
+      this.observe(labels(undefined, result), elapsed());
+      return result;
+    } catch (error) {
+      this.observe(labels(error), elapsed());
+      throw error;
+    }
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, value } of this.series.values()) {
+      DURATION_BUCKETS.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * The server's metrics. One registry is shared by every instance's client
+ * and the tool handler.
+ */
+export class Metrics {
+  readonly toolCalls = new Counter(
+    'phpipam_mcp_tool_calls_total', 'MCP tool calls by tool and outcome (success or error code)', ['tool', 'outcome']
+  );
+  readonly toolDuration = new Histogram(
+    'phpipam_mcp_tool_duration_seconds', 'MCP tool call duration', ['tool']
+  );
+  readonly httpDuration = new Histogram(
+    'phpipam_http_request_duration_seconds',
+    'phpIPAM API request latency by controller, method and HTTP status ("error" when no response arrived)',
+    ['instance', 'controller', 'method', 'status']
+  );
+  readonly httpRetries = new Counter(
+    'phpipam_http_retries_total', 'phpIPAM API requests retried after a transient failure', ['instance', 'controller']
+  );
+  readonly authRefreshes = new Counter(
+    'phpipam_auth_refreshes_total', 'Password-auth session logins and extensions', ['instance', 'kind', 'outcome']
+  );
+
+  private collectors: Array<() => MetricFamily[]> = [];
+
+  /**
+   * Add families computed on every scrape
+   */
+  collect(collector: () => MetricFamily[]): void {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    const lines = [this.toolCalls, this.toolDuration, this.httpDuration, this.httpRetries, this.authRefreshes]
+      .flatMap(metric => metric.render());
+
+    // Several clients contribute to the same families; merge them by name
+    const families = new Map<string, MetricFamily>();
+    for (const family of this.collectors.flatMap(collector => collector())) {
+      const existing = families.get(family.name);
+      if (existing) {
+        existing.samples.push(...family.samples);
+      } else {
+        families.set(family.name, { ...family, samples: [...family.samples] });
+      }
+    }
+    for (const family of families.values()) {
+      lines.push(...header(family.name, family.help, family.type));
+      lines.push(...family.samples.map(s => `${family.name}${formatLabels(s.labels)} ${s.value}`));
+    }
+    return lines.join('\n') + '\n';
+  }
+}
+
+export interface MetricsServerHandle {
+  close(): Promise<void>;
+}
+
+/**
+ * Serve GET /metrics for a Prometheus scraper. Unauthenticated, so bind it
+ * to a local or otherwise trusted address.
+ */
+export async function startMetricsServer(host: string, port: number, metrics: Metrics): Promise<MetricsServerHandle> {
+  const server = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/metrics' || req.method !== 'GET') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found\n');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+    res.end(metrics.render());
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    close: () => new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    }),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Address space planning
+ *
+ * Builds read-only free-space reports from phpIPAM subnet and address data,
+ * so agents can see what is available before they allocate anything.
+ */
+
+import { Subnet, Address, PhpIpamError } from './types.js';
+import {
+  IpPrefix,
+  IpRange,
+  parseCidr,
+  parseIp,
+  isValidIp,
+  formatIp,
+  formatCidr,
+  bitLength,
+  hostRange,
+  prefixRange,
+  rangeSize,
+  freeRanges,
+  rangeToPrefixes,
+  broadcastAddress,
+} from './ipmath.js';
+
+export const DEFAULT_FREE_COUNT = 10;
+export const MAX_FREE_COUNT = 1000;
+export const MAX_REPORTED_RANGES = 256;
+
+function subnetPrefix(subnet: Subnet): IpPrefix {
+  return parseCidr(`${subnet.subnet}/${subnet.mask}`);
+}
+
+function formatRange(range: IpRange): { start: string; end: string; size: string } {
+  return {
+    start: formatIp({ version: range.version, value: range.start }),
+    end: formatIp({ version: range.version, value: range.end }),
+    size: rangeSize(range).toString(),
+  };
+}
+
+/**
+ * Assignable range of a subnet: IPv4 drops network and broadcast, IPv6 drops
+ * the subnet-router anycast address (matching firstFreeAddress)
+ */
+function assignableRange(prefix: IpPrefix): IpRange {
+  const hosts = hostRange(prefix);
+  const start = prefix.version === 6 && prefix.prefixLength < 127
+    ? prefix.network + 1n
+    : hosts.first.value;
+  return { version: prefix.version, start, end: hosts.last.value };
+}
+
+/**
+ * Free ranges and the next free IPs in a subnet
+ */
+export function describeFreeAddresses(
+  subnet: Subnet,
+  addresses: Address[],
+  count: number = DEFAULT_FREE_COUNT
+): Record<string, unknown> {
+  if (!Number.isInteger(count) || count < 0 || count > MAX_FREE_COUNT) {
+    throw new PhpIpamError(`Invalid count: ${count}. Must be 0-${MAX_FREE_COUNT}`, 'VALIDATION');
+  }
+
+  const prefix = subnetPrefix(subnet);
+  const bounds = assignableRange(prefix);
+
+  // The gateway is reserved even when it has no address record
+  const gateway = subnet.gateway?.ip_addr;
+  const usedIps = addresses.map(a => a.ip);
+  if (gateway) usedIps.push(gateway);
+
+  const used: IpRange[] = usedIps
+    .filter(isValidIp)
+    .map(ip => parseIp(ip))
+    .map(a => ({ version: a.version, start: a.value, end: a.value }));
+
+  const free = bounds.end >= bounds.start ? freeRanges(bounds, used) : [];
+  const freeCount = free.reduce((sum, r) => sum + rangeSize(r), 0n);
+  const hosts = bounds.end >= bounds.start ? rangeSize(bounds) : 0n;
+
+  const nextFree: string[] = [];
+  for (const range of free) {
+    for (let value = range.start; value <= range.end && nextFree.length < count; value++) {
+      nextFree.push(formatIp({ version: prefix.version, value }));
+    }
+    if (nextFree.length >= count) break;
+  }
+
+  const broadcast = broadcastAddress(prefix);
+  return {
+    subnetId: subnet.id,
+    subnet: formatCidr(prefix),
+    summary: {
+      hosts: hosts.toString(),
+      used: (hosts - freeCount).toString(),
+      free: freeCount.toString(),
+    },
+    calculation: subnet.calculation,
+    reserved: {
+      network: prefix.version === 4 && prefix.prefixLength < 31 ? formatIp({ version: 4, value: prefix.network }) : undefined,
+      broadcast: broadcast && prefix.prefixLength < 31 ? formatIp(broadcast) : undefined,
+      gateway,
+    },
+    freeRanges: free.slice(0, MAX_REPORTED_RANGES).map(formatRange),
+    freeRangesTruncated: free.length > MAX_REPORTED_RANGES,
+    nextFree,
+  };
+}
+
+/**
+ * Unallocated space between the child subnets of a parent block.
+ * With a mask, only gaps that can hold a child of that size are reported.
+ */
+export function describeSubnetGaps(
+  parent: Subnet,
+  children: Subnet[],
+  mask?: number
+): Record<string, unknown> {
+  const prefix = subnetPrefix(parent);
+  const bits = bitLength(prefix.version);
+  if (mask !== undefined && (!Number.isInteger(mask) || mask <= prefix.prefixLength || mask > bits)) {
+    throw new PhpIpamError(
+      `Invalid mask: ${mask}. Must be between ${prefix.prefixLength + 1} and ${bits} for parent ${formatCidr(prefix)}`,
+      'VALIDATION'
+    );
+  }
+
+  const used = children.map(c => prefixRange(subnetPrefix(c)));
+  let available = 0n;
+
+  const gaps = freeRanges(prefixRange(prefix), used)
+    .map(range => {
+      const blocks = rangeToPrefixes(range.version, range.start, range.end)
+        .filter(b => mask === undefined || b.prefixLength <= mask);
+      if (mask !== undefined) {
+        available += blocks.reduce((sum, b) => sum + (1n << BigInt(mask - b.prefixLength)), 0n);
+      }
+      return { ...formatRange(range), cidrs: blocks.map(formatCidr) };
+    })
+    .filter(gap => gap.cidrs.length > 0);
+
+  return {
+    parentId: parent.id,
+    parent: formatCidr(prefix),
+    children: children.length,
+    mask,
+    available: mask !== undefined ? available.toString() : undefined,
+    gaps: gaps.slice(0, MAX_REPORTED_RANGES),
+    gapsTruncated: gaps.length > MAX_REPORTED_RANGES,
+  };
+}
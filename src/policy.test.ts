@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { PhpIpamError, WritePolicy } from './types.js';
+import { checkScopePolicy, checkToolPolicy, PolicyTarget } from './policy.js';
+
+function policy(overrides: Partial<WritePolicy>): WritePolicy {
+  return { sections: [], subnets: [], cidrs: [], allowTools: [], denyTools: [], maxOps: {}, ...overrides };
+}
+
+function denial(fn: () => void): string {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PhpIpamError);
+    expect((error as PhpIpamError).code).toBe('FORBIDDEN');
+    return (error as PhpIpamError).message;
+  }
+  throw new Error('Expected a FORBIDDEN error');
+}
+
+const labSubnet: PolicyTarget = { label: 'subnet 10.20.1.0/24', sectionId: '2', subnetId: '8', ancestorIds: ['7', '6'], cidr: '10.20.1.0/24' };
+
+describe('checkScopePolicy', () => {
+  it('does nothing without scope rules', () => {
+    checkScopePolicy(policy({}), [], new Set());
+  });
+
+  it('admits a target through any list', () => {
+    checkScopePolicy(policy({ sections: ['2'] }), [labSubnet], new Set());
+    checkScopePolicy(policy({ cidrs: ['10.20.0.0/16'] }), [labSubnet], new Set());
+    checkScopePolicy(policy({ sections: ['Lab'] }), [labSubnet], new Set(['2']));
+  });
+
+  it('matches section names case-insensitively', () => {
+    checkScopePolicy(policy({ sections: ['lab'] }), [{ label: 'section Lab', sectionName: 'Lab' }], new Set());
+  });
+
+  it('admits subnets nested at any depth under an allowed subnet', () => {
+    checkScopePolicy(policy({ subnets: ['6'] }), [labSubnet], new Set());
+    expect(denial(() => checkScopePolicy(policy({ subnets: ['9'] }), [labSubnet], new Set())))
+      .toContain('PHPIPAM_POLICY_SUBNETS');
+  });
+
+  it('denies calls whose targets could not be resolved', () => {
+    expect(denial(() => checkScopePolicy(policy({ sections: ['Lab'] }), [], new Set())))
+      .toContain('could not be resolved');
+  });
+
+  it('denies VLAN, device and VRF targets unless their tool is allow-listed', () => {
+    const vlan: PolicyTarget = { label: 'VLAN 12', tool: 'phpipam.vlans.delete' };
+    expect(denial(() => checkScopePolicy(policy({ sections: ['Lab'] }), [vlan], new Set())))
+      .toContain("list 'vlans.delete' in PHPIPAM_POLICY_ALLOW_TOOLS");
+    denial(() => checkScopePolicy(policy({ sections: ['Lab'], allowTools: ['*'] }), [vlan], new Set()));
+    checkScopePolicy(policy({ sections: ['Lab'], allowTools: ['vlans.*'] }), [vlan], new Set());
+  });
+});
+
+describe('checkToolPolicy', () => {
+  it('applies deny before allow and caps operations', () => {
+    expect(denial(() => checkToolPolicy(policy({ allowTools: ['addresses.*'], denyTools: ['addresses.release'] }), 'phpipam.addresses.release', 1)))
+      .toContain('PHPIPAM_POLICY_DENY_TOOLS');
+    checkToolPolicy(policy({ allowTools: ['addresses.*'] }), 'phpipam.addresses.allocate', 1);
+    expect(denial(() => checkToolPolicy(policy({ maxOps: { '*': 5, 'addresses.allocateBatch': 50 } }), 'phpipam.addresses.allocateBatch', 51)))
+      .toContain('limit is 50');
+  });
+});
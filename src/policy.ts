@@ -0,0 +1,112 @@
+/**
+ * Scoped write policy
+ *
+ * Narrows what write tools may do once PHPIPAM_WRITE_ENABLED=true: which
+ * tools may run, how many operations one call may perform, and which
+ * sections, subnets and CIDR ranges they may touch. Every denial names the
+ * rule that caused it.
+ */
+
+import { PhpIpamError, WritePolicy } from './types.js';
+import { parseCidr, parseIp, prefixContains } from './ipmath.js';
+
+/**
+ * Something a write tool is about to touch. Subnet-backed targets carry the
+ * section, the subnet and the subnets above it; cidr is the address or the
+ * subnet itself. VLANs, devices and VRFs have none of these and carry the
+ * tool that must be allow-listed to touch them instead.
+ */
+export interface PolicyTarget {
+  label: string;
+  sectionId?: string;
+  sectionName?: string;
+  subnetId?: string;
+  ancestorIds?: string[];           // Parent subnet first, up to the top level
+  cidr?: string;
+  tool?: string;
+}
+
+function toolName(name: string): string {
+  return name.replace(/^phpipam\./, '');
+}
+
+function toolMatches(pattern: string, tool: string): boolean {
+  const p = toolName(pattern);
+  return p.endsWith('*') ? tool.startsWith(p.slice(0, -1)) : p === tool;
+}
+
+function deny(rule: string, message: string): PhpIpamError {
+  return new PhpIpamError(`Blocked by policy rule ${rule}: ${message}`, 'FORBIDDEN');
+}
+
+export function hasScopeRules(policy: WritePolicy): boolean {
+  return policy.sections.length > 0 || policy.subnets.length > 0 || policy.cidrs.length > 0;
+}
+
+/**
+ * Tool allow/deny lists and the per-call operation cap
+ */
+export function checkToolPolicy(policy: WritePolicy, name: string, operations: number): void {
+  const tool = toolName(name);
+
+  if (policy.denyTools.some(p => toolMatches(p, tool))) {
+    throw deny('PHPIPAM_POLICY_DENY_TOOLS', `'${tool}' is denied`);
+  }
+  if (policy.allowTools.length > 0 && !policy.allowTools.some(p => toolMatches(p, tool))) {
+    throw deny('PHPIPAM_POLICY_ALLOW_TOOLS', `'${tool}' is not in the allow-list`);
+  }
+
+  const limit = policy.maxOps[tool] ?? policy.maxOps['*'];
+  if (limit !== undefined && operations > limit) {
+    throw deny('PHPIPAM_POLICY_MAX_OPS', `'${tool}' would perform ${operations} operations, the limit is ${limit} per call`);
+  }
+}
+
+/**
+ * Section, subnet and CIDR allow-lists. A target passes if any list admits it.
+ * sectionIds holds the IDs of sections listed by name. Calls whose targets
+ * cannot be resolved are denied, and so are targets outside any section
+ * unless their tool is named in the tool allow-list.
+ */
+export function checkScopePolicy(policy: WritePolicy, targets: PolicyTarget[], sectionIds: Set<string>): void {
+  if (!hasScopeRules(policy)) return;
+
+  const ranges = policy.cidrs.map(cidr => parseCidr(cidr));
+  const rules = [
+    policy.sections.length > 0 ? 'PHPIPAM_POLICY_SECTIONS' : '',
+    policy.subnets.length > 0 ? 'PHPIPAM_POLICY_SUBNETS' : '',
+    policy.cidrs.length > 0 ? 'PHPIPAM_POLICY_CIDRS' : '',
+  ].filter(r => r);
+
+  if (targets.length === 0) {
+    throw deny(rules.join(', '), 'the objects this call would change could not be resolved, so it cannot be checked against the write scope');
+  }
+
+  const sectionNames = policy.sections.map(s => s.toLowerCase());
+  for (const target of targets) {
+    if (target.tool !== undefined) {
+      // A bare "*" allows every tool, not these ones in particular
+      const tool = toolName(target.tool);
+      if (!policy.allowTools.some(p => toolName(p) !== '*' && toolMatches(p, tool))) {
+        throw deny(
+          rules.join(', '),
+          `${target.label} is outside any section; list '${tool}' in PHPIPAM_POLICY_ALLOW_TOOLS to allow it`
+        );
+      }
+      continue;
+    }
+
+    const inSection = (target.sectionId !== undefined && (policy.sections.includes(target.sectionId) || sectionIds.has(target.sectionId))) ||
+      (target.sectionName !== undefined && sectionNames.includes(target.sectionName.toLowerCase()));
+    const inSubnet = [target.subnetId, ...(target.ancestorIds || [])].some(id => id !== undefined && policy.subnets.includes(id));
+    let inRange = false;
+    if (target.cidr) {
+      const inner = target.cidr.includes('/') ? parseCidr(target.cidr) : parseIp(target.cidr);
+      inRange = ranges.some(range => prefixContains(range, inner));
+    }
+
+    if (!inSection && !inSubnet && !inRange) {
+      throw deny(rules.join(', '), `${target.label} is outside the allowed write scope`);
+    }
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * MCP prompts
+ *
+ * Built-in workflow prompts for everyday IPAM chores. Each prompt fetches the
+ * live context it needs from phpIPAM first, so the rendered instructions start
+ * from real subnets, addresses and VLANs instead of guesses.
+ */
+
+import { GetPromptResult, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import { PhpIpamClient } from './client.js';
+import { PhpIpamError, Section, Subnet } from './types.js';
+import { canonicalCidr, parseCidr, comparePrefix } from './ipmath.js';
+import { describeFreeAddresses, describeSubnetGaps } from './planning.js';
+
+/**
+ * Subnets whose addresses are fetched for a utilization audit
+ */
+export const MAX_AUDITED_SUBNETS = 50;
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'onboard-server',
+    description: 'Allocate an IP for a new server, register its hostname and MAC, and verify the result',
+    arguments: [
+      { name: 'hostname', description: 'Hostname of the new server', required: true },
+      { name: 'section', description: 'Section name or ID to allocate in', required: true },
+      { name: 'subnet', description: 'Subnet CIDR to allocate from (default: let the assistant choose)' },
+      { name: 'mac', description: 'MAC address of the primary interface' },
+      { name: 'description', description: 'What the server is for' },
+    ],
+  },
+  {
+    name: 'decommission-host',
+    description: 'Find every address registered for a host and release them safely',
+    arguments: [
+      { name: 'hostname', description: 'Hostname to decommission', required: true },
+    ],
+  },
+  {
+    name: 'audit-subnet-utilization',
+    description: 'Report subnet utilization in a section and flag subnets that are nearly full or unused',
+    arguments: [
+      { name: 'section', description: 'Section name or ID', required: true },
+      { name: 'threshold', description: 'Utilization percentage that counts as nearly full (default: 80)' },
+    ],
+  },
+  {
+    name: 'find-free-24-for-vlan',
+    description: 'Find a free /24 for a new VLAN and create the VLAN and subnet',
+    arguments: [
+      { name: 'section', description: 'Section name or ID', required: true },
+      { name: 'vlan', description: 'VLAN number (1-4094)', required: true },
+      { name: 'name', description: 'VLAN name' },
+      { name: 'parent', description: 'Supernet CIDR to carve from (default: any top-level block in the section)' },
+    ],
+  },
+];
+
+function render(description: string, lines: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }],
+  };
+}
+
+function required(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (!value) {
+    throw new PhpIpamError(`Prompt argument '${name}' is required`, 'VALIDATION');
+  }
+  return value;
+}
+
+async function resolveSection(client: PhpIpamClient, value: string): Promise<Section> {
+  if (/^\d+$/.test(value)) {
+    return client.getSection(value);
+  }
+  const section = await client.getSectionByName(value);
+  if (!section) {
+    throw new PhpIpamError(`Section not found: ${value}`, 'NOT_FOUND');
+  }
+  return section;
+}
+
+function cidrOf(subnet: Subnet): string {
+  return `${subnet.subnet}/${subnet.mask}`;
+}
+
+function byAddress(a: Subnet, b: Subnet): number {
+  return comparePrefix(parseCidr(cidrOf(a)), parseCidr(cidrOf(b)));
+}
+
+async function onboardServer(client: PhpIpamClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const hostname = required(args, 'hostname');
+  const section = await resolveSection(client, required(args, 'section'));
+  const existing = await client.searchByHostname(hostname);
+
+  const lines = [
+    `Onboard the server "${hostname}" in phpIPAM section "${section.name}" (ID ${section.id}).`,
+    '',
+  ];
+
+  if (existing.length > 0) {
+    lines.push(
+      `Warning: ${hostname} already has ${existing.length} address(es): ${existing.map(a => `${a.ip} (ID ${a.id})`).join(', ')}.`,
+      'Confirm with me whether to reuse one of them before allocating anything new.',
+      ''
+    );
+  }
+
+  if (args.subnet) {
+    const cidr = canonicalCidr(args.subnet, { strict: true });
+    const subnet = await client.getSubnetByCidr(cidr);
+    if (!subnet) {
+      throw new PhpIpamError(`Subnet not found: ${cidr}`, 'NOT_FOUND');
+    }
+    const free = describeFreeAddresses(subnet, await client.listAddresses(subnet.id), 5) as {
+      summary: { free: string; hosts: string };
+      nextFree: string[];
+    };
+    lines.push(
+      `Target subnet: ${cidr} (ID ${subnet.id}), ${free.summary.free} of ${free.summary.hosts} addresses free.`,
+      `Next free addresses: ${free.nextFree.join(', ') || 'none'}.`,
+    );
+  } else {
+    const subnets = (await client.listSubnets(section.id)).sort(byAddress);
+    lines.push(
+      'Candidate subnets in this section:',
+      ...subnets.map(s => `- ${cidrOf(s)} (ID ${s.id})${s.description ? ` ${s.description}` : ''}`),
+      'Pick the subnet that fits the server\'s role and check its free space with phpipam.subnets.free before allocating.',
+    );
+  }
+
+  lines.push(
+    '',
+    'Steps:',
+    `1. Allocate the first free address with phpipam.addresses.allocate, hostname "${hostname}"` +
+      (args.mac ? `, mac "${args.mac}"` : '') +
+      (args.description ? `, description "${args.description}"` : '') + '.',
+    '   Use dryRun: true first and show me the plan.',
+    '2. If the server is tracked as a device, register it with phpipam.devices.ensure.',
+    `3. Verify with phpipam.search { "query": "${hostname}", "type": "hostname" } and report the final IP, subnet and gateway.`,
+  );
+
+  return render(`Onboard ${hostname}`, lines);
+}
+
+async function decommissionHost(client: PhpIpamClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const hostname = required(args, 'hostname');
+  const addresses = await client.searchByHostname(hostname);
+  const device = await client.getDeviceByHostname(hostname);
+
+  const lines = [`Decommission the host "${hostname}" in phpIPAM.`, ''];
+
+  if (addresses.length === 0 && !device) {
+    lines.push(
+      `No addresses or device are registered under "${hostname}".`,
+      'Check for typos or alternate names with phpipam.search before concluding there is nothing to do.',
+    );
+    return render(`Decommission ${hostname}`, lines);
+  }
+
+  if (addresses.length > 0) {
+    lines.push('Registered addresses:');
+    for (const address of addresses) {
+      const subnet = await client.getSubnet(address.subnetId).catch(() => null);
+      lines.push(`- ${address.ip} (ID ${address.id}) in ${subnet ? cidrOf(subnet) : `subnet ${address.subnetId}`}` +
+        (address.mac ? `, MAC ${address.mac}` : ''));
+    }
+  }
+  if (device) {
+    lines.push(`Device record: ${device.hostname} (ID ${device.id}).`);
+  }
+
+  lines.push(
+    '',
+    'Steps:',
+    '1. Show me the list above and wait for my confirmation. Only release addresses whose hostname matches exactly.',
+    '2. Release each confirmed address with phpipam.addresses.release by ID. If a call returns a confirmToken, repeat it with the token only after I confirm.',
+    '3. If the device record should go too, tell me; there is no delete tool for devices, so it must be removed in phpIPAM.',
+    '4. Report the changeId of each release so it can be reverted with phpipam.changes.revert if needed.',
+  );
+
+  return render(`Decommission ${hostname}`, lines);
+}
+
+async function auditSubnetUtilization(client: PhpIpamClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const section = await resolveSection(client, required(args, 'section'));
+  const threshold = args.threshold ? Number(args.threshold) : 80;
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 100) {
+    throw new PhpIpamError(`Invalid threshold: ${args.threshold}. Must be 1-100`, 'VALIDATION');
+  }
+
+  const subnets = (await client.listSubnets(section.id)).sort(byAddress);
+  const audited = subnets.filter(s => s.isFolder !== '1').slice(0, MAX_AUDITED_SUBNETS);
+
+  const rows: string[] = [];
+  for (const subnet of audited) {
+    const { summary } = describeFreeAddresses(subnet, await client.listAddresses(subnet.id), 0) as {
+      summary: { hosts: string; used: string };
+    };
+    const hosts = Number(summary.hosts);
+    const used = Number(summary.used);
+    const percent = hosts > 0 ? Math.round((used / hosts) * 1000) / 10 : 0;
+    rows.push(`| ${cidrOf(subnet)} | ${subnet.id} | ${used} | ${hosts} | ${percent}% | ${subnet.description || ''} |`);
+  }
+
+  const lines = [
+    `Audit subnet utilization in phpIPAM section "${section.name}" (ID ${section.id}).`,
+    '',
+    '| Subnet | ID | Used | Hosts | Utilization | Description |',
+    '|--------|----|------|-------|-------------|-------------|',
+    ...rows,
+  ];
+  if (subnets.length > audited.length) {
+    lines.push('', `Only the first ${audited.length} of ${subnets.length} subnets were measured; use phpipam.subnets.free for the rest.`);
+  }
+  lines.push(
+    '',
+    `Summarize: which subnets are at or above ${threshold}% (candidates for expansion), which are empty (candidates for reclamation), and whether parent blocks have room for new children (phpipam.subnets.gaps).`,
+    'Do not change anything; this is a read-only report.',
+  );
+
+  return render(`Utilization of ${section.name}`, lines);
+}
+
+async function findFree24ForVlan(client: PhpIpamClient, args: Record<string, string>): Promise<GetPromptResult> {
+  const section = await resolveSection(client, required(args, 'section'));
+  const vlanNumber = required(args, 'vlan');
+  const number = Number(vlanNumber);
+  if (!Number.isInteger(number) || number < 1 || number > 4094) {
+    throw new PhpIpamError(`Invalid VLAN number: ${vlanNumber}. Must be 1-4094`, 'VALIDATION');
+  }
+
+  const subnets = await client.listSubnets(section.id);
+  let parents: Subnet[];
+  if (args.parent) {
+    const cidr = canonicalCidr(args.parent, { strict: true });
+    const parent = subnets.find(s => canonicalCidr(cidrOf(s)) === cidr);
+    if (!parent) {
+      throw new PhpIpamError(`Parent subnet not found in section ${section.name}: ${cidr}`, 'NOT_FOUND');
+    }
+    parents = [parent];
+  } else {
+    // Top-level IPv4 blocks large enough to hold a /24
+    parents = subnets
+      .filter(s => (!s.masterSubnetId || s.masterSubnetId === '0') && !s.subnet.includes(':') && Number(s.mask) < 24)
+      .sort(byAddress);
+  }
+
+  const candidates: string[] = [];
+  for (const parent of parents) {
+    const children = subnets.filter(s => s.masterSubnetId === parent.id);
+    const gaps = describeSubnetGaps(parent, children, 24) as { available: string; gaps: Array<{ cidrs: string[] }> };
+    const first = gaps.gaps.flatMap(g => g.cidrs).slice(0, 3);
+    if (first.length > 0) {
+      candidates.push(`- In ${cidrOf(parent)} (ID ${parent.id}): ${gaps.available} free /24s; free blocks start at ${first.join(', ')}`);
+    }
+  }
+
+  let vlanLine: string;
+  try {
+    const vlan = await client.getVlanByNumber(String(number));
+    vlanLine = vlan
+      ? `VLAN ${number} already exists as "${vlan.name}" (ID ${vlan.id}); reuse it rather than creating a duplicate.`
+      : `VLAN ${number} does not exist yet.`;
+  } catch (error) {
+    if (!(error instanceof PhpIpamError) || error.code !== 'CONFLICT') throw error;
+    vlanLine = `VLAN ${number} exists in several L2 domains; ask me which domain to use.`;
+  }
+
+  const lines = [
+    `Find a free /24 in phpIPAM section "${section.name}" (ID ${section.id}) for VLAN ${number}${args.name ? ` "${args.name}"` : ''}.`,
+    '',
+    vlanLine,
+    '',
+    candidates.length > 0 ? 'Free space:' : 'No parent block in this section has room for a /24. Tell me and stop.',
+    ...candidates,
+    '',
+    'Steps:',
+    `1. Create or reuse the VLAN with phpipam.vlans.ensure { "number": "${number}"${args.name ? `, "name": "${args.name}"` : ''} }.`,
+    '2. Carve the /24 with phpipam.subnets.allocate { "parentId": "<parent ID>", "mask": 24, "vlanId": "<VLAN ID>" }. Use dryRun: true first and show me the plan.',
+    '3. Report the new subnet, its VLAN, and the changeIds.',
+  ];
+
+  return render(`Free /24 for VLAN ${number}`, lines);
+}
+
+export async function getPrompt(client: PhpIpamClient, name: string, args: Record<string, string>): Promise<GetPromptResult> {
+  switch (name) {
+    case 'onboard-server':
+      return onboardServer(client, args);
+    case 'decommission-host':
+      return decommissionHost(client, args);
+    case 'audit-subnet-utilization':
+      return auditSubnetUtilization(client, args);
+    case 'find-free-24-for-vlan':
+      return findFree24ForVlan(client, args);
+    default:
+      throw new PhpIpamError(`Unknown prompt: ${name}`, 'VALIDATION');
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * MCP resources
+ *
+ * Exposes sections, subnets and addresses as browsable resources so clients
+ * can attach them as context without a tool call:
+ *
+ *   phpipam://section/{id}         Section and its subnets
+ *   phpipam://section/{id}/tree    Subnets nested by parent
+ *   phpipam://subnet/{cidr}        Subnet, usage and addresses (?vrf=<id> to disambiguate)
+ *   phpipam://address/{ip}         Address record (?vrf=<id> to disambiguate)
+ *
+ * Add ?instance=<name> to read from a non-default instance. Subscribers are
+ * notified when a write tool changes the object behind a URI.
+ */
+
+import { Resource } from '@modelcontextprotocol/sdk/types.js';
+import { PhpIpamClient } from './client.js';
+import { PhpIpamError, Subnet, ChangeRecord } from './types.js';
+import { canonicalIp, canonicalCidr, parseCidr, comparePrefix } from './ipmath.js';
+import { describeFreeAddresses } from './planning.js';
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'phpipam://section/{id}',
+    name: 'Section',
+    description: 'A phpIPAM section and its subnets',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'phpipam://section/{id}/tree',
+    name: 'Subnet tree',
+    description: 'Subnets of a section nested by parent',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'phpipam://subnet/{cidr}',
+    name: 'Subnet',
+    description: 'A subnet by CIDR (e.g., phpipam://subnet/10.0.0.0/24) with usage and addresses. Add ?vrf=<id> for overlapping space',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'phpipam://address/{ip}',
+    name: 'Address',
+    description: 'An IP address record. Add ?vrf=<id> for overlapping space',
+    mimeType: 'application/json',
+  },
+];
+
+export type ResourceKind = 'section' | 'tree' | 'subnet' | 'address';
+
+export interface ResourceRef {
+  kind: ResourceKind;
+  value: string;
+  instance?: string;
+  vrf?: string;
+}
+
+export function parseResourceUri(uri: string): ResourceRef {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new PhpIpamError(`Invalid resource URI: ${uri}`, 'VALIDATION');
+  }
+  if (url.protocol !== 'phpipam:') {
+    throw new PhpIpamError(`Unsupported resource URI scheme: ${url.protocol}`, 'VALIDATION');
+  }
+
+  // phpipam://section/5 parses with "section" as the host
+  const path = decodeURIComponent(url.pathname.replace(/^\//, ''));
+  const instance = url.searchParams.get('instance') || undefined;
+  const vrf = url.searchParams.get('vrf') || undefined;
+
+  switch (url.host) {
+    case 'section': {
+      const match = /^(\d+)(\/tree)?$/.exec(path);
+      if (!match) break;
+      return { kind: match[2] ? 'tree' : 'section', value: match[1], instance };
+    }
+    case 'subnet':
+      return { kind: 'subnet', value: canonicalCidr(path, { strict: true }), instance, vrf };
+    case 'address':
+      return { kind: 'address', value: canonicalIp(path), instance, vrf };
+  }
+  throw new PhpIpamError(
+    `Unknown resource URI: ${uri}. Expected phpipam://section/{id}, phpipam://section/{id}/tree, phpipam://subnet/{cidr} or phpipam://address/{ip}`,
+    'VALIDATION'
+  );
+}
+
+function withInstance(uri: string, instance: string | undefined): string {
+  return instance ? `${uri}?instance=${encodeURIComponent(instance)}` : uri;
+}
+
+/**
+ * Concrete resources for one instance: every section and its subnet tree
+ */
+export async function listResources(client: PhpIpamClient, instance?: string): Promise<Resource[]> {
+  const sections = await client.listSections();
+  return sections.flatMap(section => [
+    {
+      uri: withInstance(`phpipam://section/${section.id}`, instance),
+      name: `Section ${section.name}${instance ? ` (${instance})` : ''}`,
+      description: section.description || '',
+      mimeType: 'application/json',
+    },
+    {
+      uri: withInstance(`phpipam://section/${section.id}/tree`, instance),
+      name: `Subnet tree of ${section.name}${instance ? ` (${instance})` : ''}`,
+      mimeType: 'application/json',
+    },
+  ]);
+}
+
+interface TreeNode {
+  id: string;
+  cidr: string;
+  description?: string;
+  vlanId?: string;
+  children: TreeNode[];
+}
+
+/**
+ * Nest a section's subnets by masterSubnetId, sorted by address
+ */
+function subnetTree(subnets: Subnet[]): TreeNode[] {
+  const sorted = [...subnets].sort((a, b) =>
+    comparePrefix(parseCidr(`${a.subnet}/${a.mask}`), parseCidr(`${b.subnet}/${b.mask}`))
+  );
+  const nodes = new Map<string, TreeNode>(sorted.map(s => [s.id, {
+    id: s.id,
+    cidr: `${s.subnet}/${s.mask}`,
+    description: s.description || undefined,
+    vlanId: s.vlanId && s.vlanId !== '0' ? s.vlanId : undefined,
+    children: [],
+  }]));
+
+  const roots: TreeNode[] = [];
+  for (const subnet of sorted) {
+    const parent = subnet.masterSubnetId ? nodes.get(subnet.masterSubnetId) : undefined;
+    (parent ? parent.children : roots).push(nodes.get(subnet.id)!);
+  }
+  return roots;
+}
+
+export async function readResource(client: PhpIpamClient, ref: ResourceRef): Promise<unknown> {
+  switch (ref.kind) {
+    case 'section': {
+      const section = await client.getSection(ref.value);
+      const subnets = await client.listSubnets(ref.value);
+      return {
+        section,
+        subnets: subnets.map(s => ({
+          id: s.id,
+          cidr: `${s.subnet}/${s.mask}`,
+          description: s.description,
+          masterSubnetId: s.masterSubnetId,
+        })),
+      };
+    }
+    case 'tree': {
+      const section = await client.getSection(ref.value);
+      const subnets = await client.listSubnets(ref.value);
+      return { section: { id: section.id, name: section.name }, subnets: subnetTree(subnets) };
+    }
+    case 'subnet': {
+      const subnet = await client.getSubnetByCidr(ref.value, ref.vrf);
+      if (!subnet) {
+        throw new PhpIpamError(`Subnet not found: ${ref.value}`, 'NOT_FOUND');
+      }
+      const addresses = await client.listAddresses(subnet.id);
+      const usage = describeFreeAddresses(subnet, addresses, 0) as { summary: unknown };
+      return { subnet, usage: usage.summary, addresses };
+    }
+    case 'address': {
+      const address = await client.getAddressByIp(ref.value, ref.vrf);
+      if (!address) {
+        throw new PhpIpamError(`Address not found: ${ref.value}`, 'NOT_FOUND');
+      }
+      return address;
+    }
+  }
+}
+
+/**
+ * Keys a subscription to ref listens on. Subnets are keyed by CIDR and, when
+ * it resolves, by ID so address changes inside them match too.
+ */
+export async function subscriptionKeys(client: PhpIpamClient, ref: ResourceRef, instance: string): Promise<string[]> {
+  switch (ref.kind) {
+    case 'subnet': {
+      const keys = [`${instance} subnet ${ref.value}`];
+      const subnet = await client.getSubnetByCidr(ref.value, ref.vrf).catch(() => null);
+      if (subnet) keys.push(`${instance} subnet-id ${subnet.id}`);
+      return keys;
+    }
+    default:
+      return [`${instance} ${ref.kind} ${ref.value}`];
+  }
+}
+
+/**
+ * Keys touched by a set of changes, matching subscriptionKeys
+ */
+export function changeKeys(instance: string, changes: ChangeRecord[]): string[] {
+  const keys = new Set<string>();
+  for (const change of changes) {
+    const controller = change.path.split('/').filter(p => p)[0];
+    for (const snapshot of [change.before, change.after]) {
+      const s = (snapshot || {}) as Record<string, string | undefined>;
+      switch (controller) {
+        case 'addresses':
+          if (s.ip) keys.add(`${instance} address ${canonicalIp(s.ip)}`);
+          if (s.subnetId) keys.add(`${instance} subnet-id ${s.subnetId}`);
+          break;
+        case 'subnets':
+          if (s.subnet && s.mask) keys.add(`${instance} subnet ${canonicalCidr(`${s.subnet}/${s.mask}`)}`);
+          if (s.id) keys.add(`${instance} subnet-id ${s.id}`);
+          if (s.sectionId) {
+            keys.add(`${instance} section ${s.sectionId}`);
+            keys.add(`${instance} tree ${s.sectionId}`);
+          }
+          break;
+        case 'sections':
+          if (s.id) {
+            keys.add(`${instance} section ${s.id}`);
+            keys.add(`${instance} tree ${s.id}`);
+          }
+          break;
+      }
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * Whether changes add or remove listed resources (sections)
+ */
+export function changesResourceList(changes: ChangeRecord[]): boolean {
+  return changes.some(c => c.path.startsWith('/sections/') && c.method !== 'PATCH');
+}
+
+export type ResourceListener = (instance: string, changes: ChangeRecord[]) => void;
+
+/**
+ * Fan-out of write tool changes to every connected MCP server
+ */
+export class ResourceEvents {
+  private listeners = new Set<ResourceListener>();
+
+  subscribe(listener: ResourceListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  publish(instance: string, changes: ChangeRecord[]): void {
+    if (changes.length === 0) return;
+    for (const listener of this.listeners) {
+      listener(instance, changes);
+    }
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Offline snapshots
+ *
+ * A snapshot is a versioned JSON dump of sections, subnets, addresses,
+ * VLANs, VRFs and devices. Objects are sorted by ID with sorted keys and
+ * written one field per line, so two snapshots diff cleanly.
+ *
+ * With PHPIPAM_OFFLINE_SNAPSHOT set, the client answers phpIPAM API reads
+ * from a snapshot instead of the network, which keeps every read tool
+ * working on air-gapped machines and makes agent runs reproducible.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { PhpIpamClient } from './client.js';
+import { PhpIpamConfig, PhpIpamError, Section, Subnet, Address, Vlan, Vrf, Device } from './types.js';
+import { canonicalIp, canonicalCidr } from './ipmath.js';
+
+export const SNAPSHOT_FORMAT = 'phpipam-mcp-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface Snapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  source: { instance: string; baseUrl: string; appId: string };
+  sections: Section[];
+  subnets: Subnet[];
+  addresses: Address[];
+  vlans: Vlan[];
+  vrfs: Vrf[];
+  devices: Device[];
+}
+
+/**
+ * Numeric ID order, so new objects append at the end of each list
+ */
+function byId(a: { id: string }, b: { id: string }): number {
+  return Number(a.id) - Number(b.id) || a.id.localeCompare(b.id);
+}
+
+function sortKeys<T extends object>(object: T): T {
+  return Object.fromEntries(Object.entries(object).sort(([a], [b]) => a.localeCompare(b))) as T;
+}
+
+function normalize<T extends { id: string }>(objects: T[]): T[] {
+  return [...objects].sort(byId).map(sortKeys);
+}
+
+/**
+ * Read everything a read tool can ask for from phpIPAM
+ */
+export async function createSnapshot(client: PhpIpamClient, config: PhpIpamConfig): Promise<Snapshot> {
+  const sections = await client.listSections();
+  const subnets: Subnet[] = [];
+  for (const section of sections) {
+    subnets.push(...await client.listSubnets(section.id));
+  }
+  const addresses: Address[] = [];
+  for (const subnet of subnets) {
+    addresses.push(...await client.listAddresses(subnet.id));
+  }
+
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    source: { instance: config.instance, baseUrl: config.baseUrl, appId: config.appId },
+    sections: normalize(sections),
+    subnets: normalize(subnets),
+    addresses: normalize(addresses),
+    vlans: normalize(await client.listVlans()),
+    vrfs: normalize(await client.listVrfs()),
+    devices: normalize(await client.listDevices()),
+  };
+}
+
+/**
+ * Write a snapshot atomically, so an interrupted export never leaves a torn file
+ */
+export async function writeSnapshot(filePath: string, snapshot: Snapshot): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const temp = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(snapshot, null, 2) + '\n', { mode: 0o600 });
+  await fs.promises.rename(temp, filePath);
+}
+
+export function loadSnapshot(filePath: string): Snapshot {
+  let parsed: Partial<Snapshot>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new PhpIpamError(
+      `Cannot read snapshot ${filePath}: ${error instanceof Error ? error.message : error}`,
+      'VALIDATION'
+    );
+  }
+
+  if (parsed.format !== SNAPSHOT_FORMAT) {
+    throw new PhpIpamError(`${filePath} is not a phpIPAM MCP snapshot`, 'VALIDATION');
+  }
+  if (parsed.version !== SNAPSHOT_VERSION) {
+    throw new PhpIpamError(
+      `Unsupported snapshot version ${parsed.version} in ${filePath}. This server reads version ${SNAPSHOT_VERSION}`,
+      'VALIDATION'
+    );
+  }
+
+  return {
+    ...parsed,
+    sections: parsed.sections || [],
+    subnets: parsed.subnets || [],
+    addresses: parsed.addresses || [],
+    vlans: parsed.vlans || [],
+    vrfs: parsed.vrfs || [],
+    devices: parsed.devices || [],
+  } as Snapshot;
+}
+
+function sameIp(a: string, b: string): boolean {
+  try {
+    return canonicalIp(a) === canonicalIp(b);
+  } catch {
+    return a === b;
+  }
+}
+
+/**
+ * Answers the phpIPAM API paths the client reads from a snapshot, returning
+ * the same shapes phpIPAM would
+ */
+export class SnapshotApi {
+  private snapshot: Snapshot;
+
+  constructor(snapshot: Snapshot) {
+    this.snapshot = snapshot;
+  }
+
+  get createdAt(): string {
+    return this.snapshot.createdAt;
+  }
+
+  request(method: string, apiPath: string): unknown {
+    if (method !== 'GET') {
+      throw new PhpIpamError(
+        `Offline snapshot mode is read-only (${method} ${apiPath} was not sent)`,
+        'FORBIDDEN'
+      );
+    }
+
+    const [controller, ...rest] = apiPath.split('/').filter(p => p).map(decodeURIComponent);
+    const result = this.route(controller, rest);
+    if (result === undefined) {
+      throw new PhpIpamError(`Not found in snapshot: ${apiPath}`, 'NOT_FOUND', 404);
+    }
+    return result;
+  }
+
+  private route(controller: string, [id, sub, arg]: string[]): unknown {
+    const { sections, subnets, addresses, vlans, vrfs, devices } = this.snapshot;
+    const find = <T extends { id: string }>(list: T[], key: string) => list.find(o => o.id === key);
+
+    switch (controller) {
+      case 'sections':
+        if (id === undefined) return sections;
+        if (sub === 'subnets') return subnets.filter(s => s.sectionId === id);
+        return sub === undefined ? find(sections, id) : undefined;
+
+      case 'subnets':
+        if (id === 'cidr') {
+          const cidr = canonicalCidr(`${sub}/${arg}`);
+          return subnets.filter(s => canonicalCidr(`${s.subnet}/${s.mask}`) === cidr);
+        }
+        if (sub === 'slaves') return subnets.filter(s => s.masterSubnetId === id);
+        if (sub === 'addresses') return addresses.filter(a => a.subnetId === id);
+        return sub === undefined ? find(subnets, id) : undefined;
+
+      case 'addresses':
+        switch (id) {
+          case 'search':
+            return addresses.filter(a => sameIp(a.ip, sub));
+          case 'search_hostname':
+            return addresses.filter(a => a.hostname?.toLowerCase() === sub.toLowerCase());
+          case 'search_hostbase':
+            return addresses.filter(a => a.hostname?.toLowerCase().startsWith(sub.toLowerCase()));
+          default:
+            return sub === undefined ? find(addresses, id) : undefined;
+        }
+
+      case 'vrf':
+        if (id === undefined) return vrfs;
+        if (sub === 'subnets') return subnets.filter(s => s.vrfId === id);
+        return sub === undefined ? find(vrfs, id) : undefined;
+
+      case 'vlan':
+        if (id === undefined) return vlans;
+        if (id === 'search') return vlans.filter(v => String(v.number) === sub);
+        if (sub === 'subnets') return subnets.filter(s => s.vlanId === id && (arg === undefined || s.sectionId === arg));
+        return sub === undefined ? find(vlans, id) : undefined;
+
+      case 'l2domains':
+        return sub === 'vlans' ? vlans.filter(v => v.domainId === id) : undefined;
+
+      case 'devices':
+        if (id === undefined) return devices;
+        if (id === 'search') return devices.filter(d => d.hostname?.toLowerCase().includes(sub.toLowerCase()));
+        if (sub === 'addresses') return addresses.filter(a => a.deviceId === id);
+        return sub === undefined ? find(devices, id) : undefined;
+
+      default:
+        return undefined;
+    }
+  }
+}
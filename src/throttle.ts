@@ -0,0 +1,159 @@
+/**
+ * Request flow control
+ *
+ * Three guards between the client and phpIPAM, each shared by every view of
+ * a client:
+ *
+ *   ConcurrencyLimiter   At most N HTTP requests in flight; the rest queue.
+ *   RequestCoalescer     Identical concurrent reads share one request.
+ *   CircuitBreaker       After repeated failures, fail fast for a cooldown
+ *                        instead of letting every call wait out its retries.
+ */
+
+import { PhpIpamError } from './types.js';
+
+export class ConcurrencyLimiter {
+  private readonly max: number;
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(max: number) {
+    this.max = max;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.max) {
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next waiter, or free it
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  stats(): { max: number; active: number; queued: number } {
+    return { max: this.max, active: this.active, queued: this.queue.length };
+  }
+}
+
+export class RequestCoalescer {
+  private inflight = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run the task, or join the identical one already in flight
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = task().finally(() => {
+      if (this.inflight.get(key) === promise) this.inflight.delete(key);
+    });
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Stop later reads from joining ones that started before a write; those
+   * could answer with what the write just changed
+   */
+  reset(): void {
+    this.inflight.clear();
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  threshold: number;                // 0 when the breaker is disabled
+  openedAt?: string;
+  retryAfter?: number;              // Seconds until a probe request is let through
+}
+
+/**
+ * Opens after `threshold` consecutive failures (network errors, timeouts,
+ * 5xx). While open every request fails fast with RETRYABLE and a retryAfter
+ * hint. After the cooldown one probe request goes through: success closes
+ * the circuit, failure reopens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private readonly threshold: number;
+  private readonly cooldown: number;
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(threshold: number, cooldownMs: number) {
+    this.threshold = threshold;
+    this.cooldown = cooldownMs;
+  }
+
+  /**
+   * Throw if a request may not go out now
+   */
+  check(): void {
+    if (!this.isOpen()) return;
+    if (!this.probing && this.remaining() === 0) {
+      this.probing = true;
+      return;
+    }
+    throw this.openError();
+  }
+
+  isOpen(): boolean {
+    return this.threshold > 0 && this.failures >= this.threshold;
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  failure(): void {
+    this.failures++;
+    if (this.probing || this.failures === this.threshold) {
+      this.openedAt = Date.now();
+    }
+    this.probing = false;
+  }
+
+  openError(): PhpIpamError {
+    const retryAfter = Math.max(1, Math.ceil(this.remaining() / 1000));
+    return new PhpIpamError(
+      `phpIPAM is unavailable (${this.failures} consecutive failures); not sending requests for ${retryAfter}s`,
+      'RETRYABLE',
+      undefined,
+      true,
+      retryAfter
+    );
+  }
+
+  status(): CircuitStatus {
+    if (!this.isOpen()) {
+      return { state: 'closed', consecutiveFailures: this.failures, threshold: this.threshold };
+    }
+    const remaining = this.remaining();
+    return {
+      state: this.probing || remaining === 0 ? 'half-open' : 'open',
+      consecutiveFailures: this.failures,
+      threshold: this.threshold,
+      openedAt: new Date(this.openedAt).toISOString(),
+      retryAfter: Math.ceil(remaining / 1000),
+    };
+  }
+
+  private remaining(): number {
+    return Math.max(0, this.openedAt + this.cooldown - Date.now());
+  }
+}
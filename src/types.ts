@@ -8,11 +8,16 @@
 
 export type AuthMode = 'token' | 'password' | 'auto';
 
+/** phpIPAM's $api_crypt_encryption_library: the cipher crypt-mode apps expect */
+export type CryptLibrary = 'mcrypt' | 'openssl-128-cbc';
+
 export interface PhpIpamConfig {
+  instance: string;                 // Profile name ("default" for single-instance setups)
   baseUrl: string;
   appId: string;
   authMode: AuthMode;
   token?: string;
+  cryptLibrary: CryptLibrary;       // Cipher for token (crypt) mode requests
   username?: string;
   password?: string;
   
@@ -20,14 +25,73 @@ export interface PhpIpamConfig {
   writeEnabled: boolean;
   verifyTls: boolean;
   enableCache: boolean;
+  cache: CacheConfig;
   debugHttp: boolean;
   allowSubnetCreate: boolean;
   allowSectionCreate: boolean;
+  dryRun: boolean;
+  confirmDeletes: boolean;
+  confirmTtl: number;               // Seconds a delete confirmation token stays valid
+  
+  // Snapshots
+  offlineSnapshot?: string;         // Answer reads from this snapshot file instead of phpIPAM
+  snapshotPath?: string;            // Where phpipam.snapshot.create writes
+  
+  // Audit journal (JSONL, disabled when unset)
+  auditLogPath?: string;
+  
+  // Scoped write policy (empty lists mean no restriction)
+  policy: WritePolicy;
   
   // Timeouts and retries
   timeout: number;
   maxRetries: number;
   retryDelay: number;
+  
+  // Flow control
+  maxConcurrency: number;           // HTTP requests in flight at once
+  breakerThreshold: number;         // Consecutive failures that open the circuit (0 disables)
+  breakerCooldown: number;          // Milliseconds the circuit stays open
+}
+
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * Server-wide settings shared by all instances
+ */
+export interface ServerConfig {
+  transport: TransportMode;
+  httpHost: string;
+  httpPort: number;
+  httpPath: string;
+  httpTokens: string[];             // Accepted bearer tokens (several allow rotation)
+  shutdownTimeout: number;          // Milliseconds to wait for open sessions on shutdown
+  metricsHost: string;
+  metricsPort?: number;             // Serve Prometheus metrics here (disabled when unset)
+}
+
+/**
+ * Limits on what write tools may touch. Tool names are matched without the
+ * phpipam. prefix and may end in * (e.g., vlans.*).
+ */
+export interface WritePolicy {
+  sections: string[];               // Section IDs or names
+  subnets: string[];                // Subnet IDs
+  cidrs: string[];                  // Canonical CIDR ranges
+  allowTools: string[];
+  denyTools: string[];
+  maxOps: Record<string, number>;   // Per tool, '*' for the default
+}
+
+/**
+ * Kinds of cached phpIPAM responses, each with its own TTL
+ */
+export type CacheEntity = 'sections' | 'subnets' | 'addresses' | 'vlans' | 'vrfs' | 'devices' | 'search';
+
+export interface CacheConfig {
+  ttl: Record<CacheEntity, number>; // Seconds per entity (0 disables caching it)
+  maxEntries: number;               // LRU bound across all entities
+  staleSeconds: number;             // Serve expired entries this long while refreshing
 }
 
 // ============================================================================
@@ -48,7 +112,8 @@ export class PhpIpamError extends Error {
     message: string,
     public code: ErrorCode,
     public statusCode?: number,
-    public retryable: boolean = false
+    public retryable: boolean = false,
+    public retryAfter?: number        // Seconds the caller should wait before retrying
   ) {
     super(message);
     this.name = 'PhpIpamError';
@@ -67,6 +132,55 @@ export interface ApiResponse<T = unknown> {
   time?: number;
 }
 
+// ============================================================================
+// Change Tracking Types
+// ============================================================================
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * A write sent to phpIPAM (or, in a dry run, that would have been sent),
+ * with snapshots of the object before and after it
+ */
+export interface ChangeRecord {
+  method: 'POST' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: Record<string, unknown>;
+  before: object | null;
+  after: object | null;
+  diff: FieldChange[];
+  dryRun: boolean;
+  predicted?: string[];             // Fields of a planned object that phpIPAM picks when the request is sent
+}
+
+// ============================================================================
+// Audit Types
+// ============================================================================
+
+export interface AuditTarget {
+  type: string;
+  id: string;
+  ip?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  instance?: string;
+  tool: string;
+  args: Record<string, unknown>;
+  targets: AuditTarget[];
+  changes: ChangeRecord[];
+  outcome: 'success' | 'error';
+  result?: unknown;
+  error?: { code: string; message: string };
+  durationMs: number;
+}
+
 // ============================================================================
 // phpIPAM Entity Types
 // ============================================================================
@@ -152,6 +266,17 @@ export interface Vlan {
   name: string;
   number: string;
   description?: string;
+  editDate?: string;
+}
+
+
+export interface Vrf {
+  id: string;
+  name: string;
+  rd?: string;
+  description?: string;
+  sections?: string;
+  editDate?: string;
 }
 
 export interface Device {
@@ -190,6 +315,15 @@ export interface ListSubnetsInput {
 export interface GetSubnetInput {
   id?: string;
   cidr?: string; // e.g., "192.168.1.0/24"
+  vrf?: string;  // VRF ID or name, disambiguates overlapping CIDRs
+}
+
+export interface SubnetFreeInput extends GetSubnetInput {
+  count?: number | string;
+}
+
+export interface SubnetGapsInput extends GetSubnetInput {
+  mask?: number | string;
 }
 
 export interface ListAddressesInput {
@@ -199,6 +333,7 @@ export interface ListAddressesInput {
 export interface GetAddressInput {
   id?: string;
   ip?: string;
+  vrf?: string;
 }
 
 export interface SearchInput {
@@ -213,11 +348,28 @@ export interface AllocateAddressInput {
   mac?: string;
   owner?: string;
   note?: string;
+  slaac?: boolean;
+}
+
+export interface AllocateBatchItem {
+  subnetId?: string;
+  hostname?: string;
+  description?: string;
+  mac?: string;
+  owner?: string;
+  note?: string;
+}
+
+export interface AllocateBatchInput {
+  subnetId?: string;
+  items: AllocateBatchItem[];
 }
 
 export interface ReleaseAddressInput {
   id?: string;
   ip?: string;
+  vrf?: string;
+  confirmToken?: string;
 }
 
 export interface UpsertAddressInput {
@@ -236,6 +388,14 @@ export interface EnsureSubnetInput {
   description?: string;
   vlanId?: string;
   masterSubnetId?: string;
+  vrf?: string;
+}
+
+export interface AllocateSubnetInput extends Pick<EnsureSubnetInput, 'description' | 'vlanId'> {
+  parentId?: string;
+  parentCidr?: string;
+  vrf?: string;
+  mask: number | string;
 }
 
 export interface EnsureSectionInput {
@@ -243,3 +403,113 @@ export interface EnsureSectionInput {
   description?: string;
   masterSection?: string;
 }
+
+export interface ListVlansInput {
+  domainId?: string;
+}
+
+export interface GetVlanInput {
+  id?: string;
+  number?: string;
+  domainId?: string;
+}
+
+export interface ListVlanSubnetsInput extends GetVlanInput {
+  sectionId?: string;
+}
+
+export interface EnsureVlanInput {
+  number: string;
+  name: string;
+  domainId?: string;
+  description?: string;
+}
+
+export interface UpdateVlanInput {
+  id: string;
+  number?: string;
+  name?: string;
+  description?: string;
+}
+
+export interface DeleteVlanInput {
+  id?: string;
+  number?: string;
+  domainId?: string;
+  confirmToken?: string;
+}
+
+export interface GetDeviceInput {
+  id?: string;
+  hostname?: string;
+}
+
+export interface FindDeviceByIpInput {
+  ip: string;
+  vrf?: string;
+}
+
+export interface EnsureDeviceInput {
+  hostname: string;
+  ip_addr?: string;
+  description?: string;
+  type?: string;
+  location?: string;
+}
+
+export interface UpdateDeviceInput {
+  id: string;
+  hostname?: string;
+  ip_addr?: string;
+  description?: string;
+  type?: string;
+  location?: string;
+}
+
+export interface GetVrfInput {
+  id?: string;
+  name?: string;
+}
+
+export interface EnsureVrfInput {
+  name: string;
+  rd?: string;
+  description?: string;
+}
+
+export interface CalcInput {
+  operation: 'info' | 'contains' | 'overlap' | 'split' | 'summarize' | 'normalize' | 'eui64';
+  cidr?: string;
+  other?: string;
+  prefixLength?: number | string;
+  cidrs?: string[];
+  value?: string;
+  mac?: string;
+}
+
+export interface ClearCacheInput {
+  entity?: CacheEntity;
+}
+
+export interface AuditQueryInput {
+  instance?: string;
+  since?: string;
+  until?: string;
+  tool?: string;
+  outcome?: 'success' | 'error';
+  objectType?: string;
+  objectId?: string;
+  ip?: string;
+  limit?: number | string;
+}
+
+export interface ListChangesInput {
+  limit?: number | string;
+}
+
+export interface RevertChangesInput {
+  changeId: string;
+  force?: boolean;
+  confirmToken?: string;
+  dryRun?: boolean;
+}